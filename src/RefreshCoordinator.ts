@@ -0,0 +1,175 @@
+import SlicknodeAuthError from './errors/SlicknodeAuthError';
+import {RefreshState} from './types';
+
+interface IWaiter {
+  resolve: (headers: HeadersInit) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Coordinates the refresh of the auth token set, so only one refresh is executed at a time.
+ *
+ * The coordinator is a state machine with the states:
+ *
+ * - idle: No refresh was executed yet, or the last refresh timed out
+ * - refreshing: A refresh is in progress, operations are queued as waiters
+ * - authenticated: Auth headers were available after the last determination
+ * - anonymous: No valid auth tokens were available after the last determination
+ *
+ * Waiters are settled in the order in which they were queued, all with the same result of the refresh.
+ * If the refresh does not complete within the timeout, the waiters are rejected and a new refresh can
+ * be started. The result of the timed out refresh is ignored.
+ */
+export default class RefreshCoordinator {
+  private state: RefreshState;
+  private waiters: IWaiter[];
+
+  // Headers for operations that are not waiting for the refresh to complete
+  private releasedHeaders: HeadersInit | null;
+
+  // Incremented with every refresh to ignore results of timed out refreshes
+  private generation: number;
+  private timeoutTimer: ReturnType<typeof setTimeout> | null;
+  private timeout: number;
+  private onTimeout: () => void;
+
+  /**
+   * Constructor
+   * @param timeout Time in milliseconds after which a refresh is aborted
+   * @param onTimeout Called when a refresh timed out
+   */
+  constructor(timeout: number, onTimeout: () => void = () => null) {
+    this.timeout = timeout;
+    this.onTimeout = onTimeout;
+    this.state = 'idle';
+    this.waiters = [];
+    this.releasedHeaders = null;
+    this.generation = 0;
+    this.timeoutTimer = null;
+  }
+
+  public getState(): RefreshState {
+    return this.state;
+  }
+
+  /**
+   * Sets the state that was determined without refresh. Ignored while a refresh is in progress
+   *
+   * @param state
+   */
+  public setState(state: 'authenticated' | 'anonymous'): void {
+    if (this.state !== 'refreshing') {
+      this.state = state;
+    }
+  }
+
+  /**
+   * Starts the refresh if no refresh is in progress. The refresh resolves with the auth headers for
+   * the waiters and can call release to settle the current and all further waiters with the given
+   * headers before the refresh completes. isCancelled returns true once the refresh timed out,
+   * so the refresh can stop retrying
+   *
+   * @param refresh
+   * @returns False if a refresh was already in progress
+   */
+  public start(
+    refresh: (release: (headers: HeadersInit) => void, isCancelled: () => boolean) => Promise<HeadersInit>,
+  ): boolean {
+    if (this.state === 'refreshing') {
+      return false;
+    }
+    const generation = ++this.generation;
+    this.state = 'refreshing';
+    this.releasedHeaders = null;
+    this.timeoutTimer = setTimeout(() => {
+      this.timeoutTimer = null;
+      this.generation++;
+      this.state = 'idle';
+      this.releasedHeaders = null;
+      this.onTimeout();
+      this.rejectWaiters(new SlicknodeAuthError('REFRESH_FAILED', 'Refresh of auth token set timed out'));
+    }, this.timeout);
+
+    const release = (headers: HeadersInit) => {
+      if (generation === this.generation && this.state === 'refreshing') {
+        this.releasedHeaders = headers;
+        this.resolveWaiters(headers);
+      }
+    };
+    const isCancelled = () => generation !== this.generation;
+    const complete = (state: RefreshState) => {
+      if (isCancelled()) {
+        return false;
+      }
+      clearTimeout(this.timeoutTimer);
+      this.timeoutTimer = null;
+      this.state = state;
+      this.releasedHeaders = null;
+      return true;
+    };
+    let result: Promise<HeadersInit>;
+    try {
+      result = refresh(release, isCancelled);
+    } catch (error) {
+      result = Promise.reject(error);
+    }
+    result.then(
+      (headers) => {
+        if (complete(Object.keys(headers).length ? 'authenticated' : 'anonymous')) {
+          this.resolveWaiters(headers);
+        }
+      },
+      (error) => {
+        if (complete('anonymous')) {
+          this.rejectWaiters(error);
+        }
+      },
+    );
+    return true;
+  }
+
+  /**
+   * Returns a promise that is settled with the result of the refresh in progress,
+   * resolves with empty headers if no refresh is in progress
+   */
+  public wait(): Promise<HeadersInit> {
+    if (this.state !== 'refreshing') {
+      return Promise.resolve({});
+    }
+    if (this.releasedHeaders) {
+      return Promise.resolve(this.releasedHeaders);
+    }
+    return new Promise<HeadersInit>((resolve, reject) => {
+      this.waiters.push({resolve, reject});
+    });
+  }
+
+  /**
+   * Returns the number of operations that wait for the refresh to complete
+   */
+  public getWaiterCount(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Stops the timeout of the refresh in progress
+   */
+  public dispose(): void {
+    if (this.timeoutTimer) {
+      clearTimeout(this.timeoutTimer);
+      this.timeoutTimer = null;
+    }
+  }
+
+  private resolveWaiters(headers: HeadersInit): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((waiter) => waiter.resolve(headers));
+  }
+
+  private rejectWaiters(error: Error): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((waiter) => waiter.reject(error));
+  }
+}
@@ -1,16 +1,90 @@
-import { ApolloLink, FetchResult, NextLink, Observable, Operation, gql } from '@apollo/client/core';
+import {
+  ApolloLink,
+  FetchResult,
+  NextLink,
+  Observable,
+  ObservableSubscription,
+  Operation,
+  gql,
+} from '@apollo/client/core';
 import { createOperation } from '@apollo/client/link/utils';
-import { removeDirectivesFromDocument } from '@apollo/client/utilities';
-import { DirectiveNode, FieldNode, OperationDefinitionNode } from 'graphql/language';
+import { getOperationDefinition, removeDirectivesFromDocument } from '@apollo/client/utilities';
+import {
+  ASTNode,
+  DirectiveNode,
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  visit,
+} from 'graphql/language';
+import AuthRequiredError from './errors/AuthRequiredError';
+import SlicknodeAuthError from './errors/SlicknodeAuthError';
+import {decodeJwt} from './jwt';
+import {createConsoleLogger, redactLogFields} from './logger';
+import RefreshCoordinator from './RefreshCoordinator';
+import AsyncStorageCache from './storage/AsyncStorageCache';
 import MemoryStorage from './storage/MemoryStorage';
-import {IAuthTokenSet, ISlicknodeLinkOptions, IStorage} from './types';
+import {
+  AuthStateChangeEventType,
+  AuthStateChangeListener,
+  IAuthInstrumentation,
+  IAuthStateSnapshot,
+  IAuthSyncMessage,
+  IAuthTokenSet,
+  IExportAuthStateOptions,
+  IJwtClaims,
+  ILogFields,
+  ILogger,
+  ILogoutResult,
+  ISlicknodeLinkContext,
+  ISlicknodeLinkOptions,
+  IStorage,
+  IStoredAuthTokenSet,
+  LogLevel,
+  RefreshOutcome,
+  RefreshState,
+} from './types';
 
 const REFRESH_TOKEN_KEY = ':auth:refreshToken';
 const REFRESH_TOKEN_EXPIRES_KEY = ':auth:refreshTokenExpires';
 const ACCESS_TOKEN_KEY = ':auth:accessToken';
 const ACCESS_TOKEN_EXPIRES_KEY = ':auth:accessTokenExpires';
+const REFRESH_LOCK_KEY = ':auth:refreshLock';
+const CLOCK_SKEW_KEY = ':auth:clockSkew';
+const SESSIONS_KEY = ':auth:sessions';
+const ACTIVE_SESSION_KEY = ':auth:activeSession';
+
+const TOKEN_KEYS = [
+  REFRESH_TOKEN_KEY,
+  REFRESH_TOKEN_EXPIRES_KEY,
+  ACCESS_TOKEN_KEY,
+  ACCESS_TOKEN_EXPIRES_KEY,
+];
 
 const DEFAULT_NAMESPACE = 'slicknode';
+const DEFAULT_SESSION = 'default';
+
+const DEFAULT_AUTH_HEADER_NAME = 'Authorization';
+const DEFAULT_AUTH_SCHEME = 'Bearer';
+const DEFAULT_LOGOUT_FIELDS = ['logoutUser'];
+const DEFAULT_AUTH_ERROR_CODES = ['UNAUTHENTICATED'];
+const TRANSIENT_GRAPHQL_ERROR_CODES = ['INTERNAL_SERVER_ERROR', 'SERVICE_UNAVAILABLE'];
+const DEFAULT_MAX_AUTH_RETRIES = 1;
+const DEFAULT_REFRESH_RETRIES = 3;
+const DEFAULT_REFRESH_RETRY_DELAY = 1;
+const DEFAULT_MAX_REFRESH_RETRY_DELAY = 30;
+const DEFAULT_REFRESH_TIMEOUT = 60;
+
+// Version of the format of exported auth state snapshots
+const AUTH_STATE_VERSION = 1;
+
+// Minimum change of the clock skew in milliseconds before it is updated
+const CLOCK_SKEW_TOLERANCE = 5000;
+
+// Maximum delay supported by setTimeout
+const MAX_TIMEOUT = 2147483647;
 
 declare var global: {
   localStorage: IStorage;
@@ -31,11 +105,217 @@ export const LOGOUT_MUTATION = gql`mutation logout($refreshToken: String) {
 	}
 }`;
 
+const defaultGetRefreshVariables = (refreshToken: string) => ({
+  token: refreshToken,
+});
+
+const defaultGetRefreshResult = (data: any) => data.refreshAuthToken;
+
+/**
+ * Network errors and server errors are transient, client errors like 400, 401 or 403
+ * indicate an invalid refresh token. GraphQL errors of the refresh result are transient
+ * if their code indicates a failure of the server
+ *
+ * @param error
+ */
+const defaultIsTransientRefreshError = (error: any) => {
+  // Network errors are Error instances, GraphQL errors are parsed from the response or are GraphQLErrors
+  const isGraphQLError = !(error instanceof Error) || 'extensions' in error;
+  if (isGraphQLError) {
+    const code = error && error.extensions && error.extensions.code;
+    return TRANSIENT_GRAPHQL_ERROR_CODES.includes(code);
+  }
+  const statusCode = error.statusCode;
+  if (typeof statusCode !== 'number') {
+    return true;
+  }
+  return statusCode >= 500 || statusCode === 408 || statusCode === 429;
+};
+
 const authenticationDirectiveRemoveConfig = {
   test: (directive: DirectiveNode) => directive.name.value === 'authenticate',
   remove: false,
 };
 
+const requiresAuthDirectiveRemoveConfig = {
+  test: (directive: DirectiveNode) => directive.name.value === 'requiresAuth',
+  remove: false,
+};
+
+/**
+ * Removes the variable definitions that are not used in their operation, for example after
+ * removing a directive with a variable argument. Unused variables make the document invalid
+ *
+ * Returns the original document if all variables are used
+ *
+ * @param document
+ */
+function removeUnusedVariableDefinitions(document: DocumentNode): DocumentNode {
+  const fragments: {[name: string]: FragmentDefinitionNode} = {};
+  document.definitions.forEach((definition) => {
+    if (definition.kind === 'FragmentDefinition') {
+      fragments[definition.name.value] = definition;
+    }
+  });
+
+  // Collects the names of the variables used in the node including the fragments it references
+  const collectVariables = (
+    node: ASTNode,
+    variables: {[name: string]: boolean},
+    visitedFragments: {[name: string]: boolean},
+  ) => {
+    visit(node, {
+      VariableDefinition: () => false,
+      Variable: (variable) => {
+        variables[variable.name.value] = true;
+      },
+      FragmentSpread: (spread) => {
+        const fragmentName = spread.name.value;
+        if (!visitedFragments[fragmentName] && fragments[fragmentName]) {
+          visitedFragments[fragmentName] = true;
+          collectVariables(fragments[fragmentName], variables, visitedFragments);
+        }
+      },
+    });
+    return variables;
+  };
+
+  let changed = false;
+  const definitions = document.definitions.map((definition) => {
+    if (definition.kind !== 'OperationDefinition' || !definition.variableDefinitions) {
+      return definition;
+    }
+    const usedVariables = collectVariables(definition, {}, {});
+    const variableDefinitions = definition.variableDefinitions.filter(
+      (variableDefinition) => usedVariables[variableDefinition.variable.name.value],
+    );
+    if (variableDefinitions.length === definition.variableDefinitions.length) {
+      return definition;
+    }
+    changed = true;
+    return {...definition, variableDefinitions};
+  });
+  return changed ? {...document, definitions} : document;
+}
+
+const hasRequiresAuthDirective = (node: {directives?: readonly DirectiveNode[]}) =>
+  Boolean(node.directives && node.directives.some(requiresAuthDirectiveRemoveConfig.test));
+
+/**
+ * Removes all fields with a @requiresAuth directive from the document. Selection sets that
+ * end up empty are replaced with the __typename field and fragments that are no longer used are
+ * removed to keep the document valid
+ *
+ * Returns the original document if it has no fields with a @requiresAuth directive
+ *
+ * @param document
+ */
+function removeRequiresAuthFields(document: DocumentNode): DocumentNode {
+  const prunedDocument = visit(document, {
+    Field: {
+      enter: (node) => hasRequiresAuthDirective(node) ? null : undefined,
+    },
+    SelectionSet: {
+      leave: (node) => node.selections.length ? undefined : {
+        ...node,
+        selections: [ {kind: 'Field', name: {kind: 'Name', value: '__typename'}} ],
+      },
+    },
+  });
+  return prunedDocument === document ? document : removeUnusedFragments(prunedDocument);
+}
+
+/**
+ * Removes the fragment definitions that are not spread in any operation, for example after
+ * removing the fields that contained the fragment spreads. Unused fragments make the document invalid
+ *
+ * Returns the original document if all fragments are used
+ *
+ * @param document
+ */
+function removeUnusedFragments(document: DocumentNode): DocumentNode {
+  const fragments: {[name: string]: FragmentDefinitionNode} = {};
+  document.definitions.forEach((definition) => {
+    if (definition.kind === 'FragmentDefinition') {
+      fragments[definition.name.value] = definition;
+    }
+  });
+
+  // Collects the names of the fragments spread in the node including nested fragment spreads
+  const usedFragments: {[name: string]: boolean} = {};
+  const collectFragments = (node: ASTNode) => {
+    visit(node, {
+      FragmentSpread: (spread) => {
+        const fragmentName = spread.name.value;
+        if (!usedFragments[fragmentName] && fragments[fragmentName]) {
+          usedFragments[fragmentName] = true;
+          collectFragments(fragments[fragmentName]);
+        }
+      },
+    });
+  };
+  document.definitions.forEach((definition) => {
+    if (definition.kind === 'OperationDefinition') {
+      collectFragments(definition);
+    }
+  });
+
+  const definitions = document.definitions.filter(
+    (definition) => definition.kind !== 'FragmentDefinition' || usedFragments[definition.name.value],
+  );
+  return definitions.length === document.definitions.length ? document : {...document, definitions};
+}
+
+/**
+ * Returns all fields of the selection set including the fields of inline fragments
+ * and fragment spreads
+ *
+ * @param selectionSet
+ * @param fragments Fragment definitions of the document by name
+ * @param onMissingFragment Called with the name of fragments that are not defined in the document
+ * @param visitedFragments Names of the fragments that were already collected
+ */
+function collectFields(
+  selectionSet: SelectionSetNode,
+  fragments: {[name: string]: FragmentDefinitionNode},
+  onMissingFragment: (fragmentName: string) => void,
+  visitedFragments: {[name: string]: boolean} = {},
+): FieldNode[] {
+  const fields: FieldNode[] = [];
+  selectionSet.selections.forEach((selectionNode) => {
+    switch (selectionNode.kind) {
+      case 'Field': {
+        fields.push(selectionNode);
+        break;
+      }
+      case 'InlineFragment': {
+        fields.push(...collectFields(selectionNode.selectionSet, fragments, onMissingFragment, visitedFragments));
+        break;
+      }
+      case 'FragmentSpread': {
+        const fragmentName = selectionNode.name.value;
+        // Skip fragments that were already collected to prevent infinite loops
+        if (visitedFragments[fragmentName]) {
+          break;
+        }
+        visitedFragments[fragmentName] = true;
+        if (fragments[fragmentName]) {
+          fields.push(...collectFields(
+            fragments[fragmentName].selectionSet,
+            fragments,
+            onMissingFragment,
+            visitedFragments,
+          ));
+        } else {
+          onMissingFragment(fragmentName);
+        }
+        break;
+      }
+    }
+  });
+  return fields;
+}
+
 /**
  * SlicknodeLink instance to be used to load data with apollo-client
  * from slicknode GraphQL servers
@@ -46,7 +326,18 @@ export default class SlicknodeLink extends ApolloLink {
   public storage: IStorage;
   public namespace: string;
 
-  private loadHeadersPromise: Promise<HeadersInit> | null;
+  private refreshCoordinator: RefreshCoordinator;
+  private storageReady: Promise<void>;
+  private forward: NextLink | null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null;
+  private disposed: boolean;
+  private authStateChangeListeners: AuthStateChangeListener[];
+  private instanceId: string;
+  private unsubscribeSync: (() => void) | null;
+  private logger: ILogger;
+
+  // Reports the end of the refresh attempt in progress, so a refresh that never completes is reported on timeout
+  private reportRefreshTimeout: (() => void) | null;
 
   /**
    * Constructor
@@ -55,8 +346,124 @@ export default class SlicknodeLink extends ApolloLink {
   constructor(options: ISlicknodeLinkOptions = {}) {
     super();
     this.options = options;
+    this.logger = options.logger || createConsoleLogger(Boolean(options.debug));
+    this.reportRefreshTimeout = null;
+    this.refreshCoordinator = new RefreshCoordinator(
+      this.getRefreshTimeout(),
+      () => {
+        this.log('warn', 'refresh.timeout');
+        if (this.reportRefreshTimeout) {
+          this.reportRefreshTimeout();
+        }
+      },
+    );
     this.namespace = options.namespace || DEFAULT_NAMESPACE;
-    this.storage = options.storage || global.localStorage || new MemoryStorage();
+    this.forward = null;
+    this.refreshTimer = null;
+    this.disposed = false;
+    this.authStateChangeListeners = [];
+    this.instanceId = Math.random().toString(36).substr(2);
+    this.unsubscribeSync = options.sync ?
+      options.sync.subscribe((message) => this.handleSyncMessage(message)) :
+      null;
+    if (options.asyncStorage) {
+      const cache = new AsyncStorageCache(options.asyncStorage, (error) => {
+        this.log('error', 'storage.writeFailed', {error: error.message});
+      });
+      this.storage = cache;
+      this.storageReady = cache.load([
+        CLOCK_SKEW_KEY,
+        SESSIONS_KEY,
+        ACTIVE_SESSION_KEY,
+      ].map((key) => this.namespace + key))
+        // Load tokens of all sessions
+        .then(() => cache.load([DEFAULT_SESSION, ...this.getSessions()].reduce(
+          (keys, session) => [...keys, ...TOKEN_KEYS.map((key) => this.getStorageKey(key, session))],
+          [],
+        )))
+        .catch((error) => {
+          this.log('error', 'storage.loadFailed', {error: error.message});
+        });
+    } else {
+      this.storage = options.storage || global.localStorage || new MemoryStorage();
+      this.storageReady = Promise.resolve();
+    }
+    this.storageReady.then(() => this.scheduleRefresh());
+  }
+
+  /**
+   * Stops the background refresh of the auth tokens and the synchronization with other contexts
+   */
+  public dispose(): void {
+    this.disposed = true;
+    this.cancelScheduledRefresh();
+    this.refreshCoordinator.dispose();
+    if (this.unsubscribeSync) {
+      this.unsubscribeSync();
+      this.unsubscribeSync = null;
+    }
+  }
+
+  /**
+   * Registers a listener that is called when the user is logged in or out, or the auth tokens
+   * are refreshed or expire. Returns a function to remove the listener
+   *
+   * @param listener
+   * @returns {() => void}
+   */
+  public onAuthStateChange(listener: AuthStateChangeListener): () => void {
+    this.authStateChangeListeners.push(listener);
+    return () => {
+      this.authStateChangeListeners = this.authStateChangeListeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Returns the auth headers as connection params for GraphQL subscriptions via WebSocket.
+   * If the access token expired, the auth token set is refreshed before via the refreshLink or via the links
+   * that follow SlicknodeLink, which requires at least one request to be executed via the link.
+   *
+   * @returns {Promise<{[name: string]: string}>}
+   */
+  public async getConnectionParams(): Promise<{[name: string]: string}> {
+    await this.storageReady;
+    const accessToken = this.options.accessToken || this.getAccessToken();
+    if (accessToken) {
+      return this.createAuthHeaders(accessToken);
+    }
+    const forward = this.getRefreshFallbackForward();
+    if (!forward) {
+      this.log('debug', 'connectionParams.noRequestExecuted');
+      return {};
+    }
+    return await this.getAuthHeaders(forward) as {[name: string]: string};
+  }
+
+  /**
+   * Registers a listener that is called when the connection params change because the user was logged in or out,
+   * or the auth token set was refreshed. The WebSocket connection should be restarted in the listener,
+   * so subscriptions use the same identity as HTTP requests. Returns a function to remove the listener
+   *
+   * @param listener
+   * @returns {() => void}
+   */
+  public onConnectionParamsChange(listener: () => void): () => void {
+    return this.onAuthStateChange((event) => {
+      if (event.type !== 'refreshFailed' && event.session === this.getActiveSession()) {
+        listener();
+      }
+    });
+  }
+
+  /**
+   * Returns a promise that resolves once the auth tokens were loaded from the storage
+   * and all pending writes were persisted
+   */
+  public async ready(): Promise<void> {
+    await this.storageReady;
+    if (this.storage instanceof AsyncStorageCache) {
+      await this.storage.flush();
+    }
   }
 
   /**
@@ -74,96 +481,140 @@ export default class SlicknodeLink extends ApolloLink {
         'Network link is missing in apollo client or SlicknodeLink is last link in the chain.',
       );
     }
+    // Remember next link for background token refresh
+    this.forward = forward;
     return new Observable<FetchResult>((observer) => {
-      this.getAuthHeaders(forward)
-        .then((authHeaders) => {
-          operation.setContext(({headers}: {headers: any}) => ({
-            headers: {
-              ...(headers || {}),
-              ...authHeaders,
-            },
-          }));
-
-          const definitions = operation.query.definitions;
-          // Find current operation in definitions
-          const currentOperation: OperationDefinitionNode | null = definitions.find((operationDefinition) => {
-            return (
-              operationDefinition.kind === 'OperationDefinition' &&
-              (
-                (operationDefinition.name && operationDefinition.name.value === operation.operationName) ||
-                !operationDefinition.name
-              )
-            );
-          }) as OperationDefinitionNode | null;
-
-          // Check mutations for directives and logoutMutation
-          const resultListeners: ((value: any) => void)[] = [];
-          if (currentOperation && currentOperation.operation === 'mutation') {
-            const fields: FieldNode[] = [];
-            currentOperation.selectionSet.selections.forEach((selectionNode) => {
-              if (selectionNode.kind === 'Field') {
-                fields.push(selectionNode);
-              } else {
-                // @TODO: Collect all relevant fields recursively from fragments / child fragments
-                // tslint:disable-next-line no-console
-                console.warn('Fragments not supported on Mutation type for slicknode-apollo-link');
-              }
+      const {
+        headers: initialHeaders,
+        skipAuth,
+        requireAuth,
+        forceRefresh,
+      }: ISlicknodeLinkContext & {headers?: {[name: string]: string}} = operation.getContext();
+      const resultListeners = this.getResultListeners(operation);
+
+      // Operations with a @requiresAuth directive are not sent without a valid access token
+      const operationDefinition = getOperationDefinition(operation.query);
+      const operationRequiresAuth = Boolean(requireAuth) ||
+        Boolean(operationDefinition && hasRequiresAuthDirective(operationDefinition));
+
+      // Fields with a @requiresAuth directive are pruned from the query for anonymous users
+      const anonymousFieldsQuery = removeRequiresAuthFields(operation.query);
+
+      // Remove @authenticated and @requiresAuth directives from document
+      const directiveRemoveConfigs = [ authenticationDirectiveRemoveConfig, requiresAuthDirectiveRemoveConfig ];
+      const authenticatedQuery = removeUnusedVariableDefinitions(
+        removeDirectivesFromDocument(directiveRemoveConfigs, operation.query),
+      );
+      const anonymousQuery = anonymousFieldsQuery === operation.query ?
+        authenticatedQuery :
+        removeUnusedVariableDefinitions(removeDirectivesFromDocument(directiveRemoveConfigs, anonymousFieldsQuery));
+      operation.query = authenticatedQuery;
+
+      // Subscription of the forwarded operation, replaced when the operation is replayed
+      let subscription: ObservableSubscription | null = null;
+      let cancelled = false;
+
+      const forwardOperation = (retryCount: number) => {
+        const authHeadersPromise = skipAuth ?
+          Promise.resolve({}) :
+          forceRefresh && retryCount === 0 ?
+            this.getRefreshedAuthHeaders(forward, operation) :
+            this.getAuthHeaders(forward, operation);
+        authHeadersPromise
+          .then((authHeaders) => {
+            // Don't send operations that were unsubscribed while waiting for auth headers
+            if (cancelled) {
+              this.log('debug', 'operation.cancelled', {operationName: operation.operationName});
+              return;
+            }
+            const authenticated = Object.keys(authHeaders).length > 0;
+            if (operationRequiresAuth && !authenticated) {
+              this.log('info', 'operation.authRequired', {operationName: operation.operationName});
+              observer.error(new AuthRequiredError());
+              return;
+            }
+            if (!authenticated && anonymousQuery !== authenticatedQuery) {
+              this.log('debug', 'operation.fieldsPruned', {operationName: operation.operationName});
+            }
+            operation.query = authenticated ? authenticatedQuery : anonymousQuery;
+            operation.setContext({
+              headers: {
+                ...(initialHeaders || {}),
+                ...authHeaders,
+              },
             });
 
-            fields.forEach((field) => {
-              if (field.name.value === 'logoutUser') {
-                // Subscribe to result to remove auth tokens from storage
-                resultListeners.push(() => {
-                  this.debug('Removing auth tokens from storage');
-                  this.logout();
-                });
-              } else if (
-                field.directives &&
-                field.directives.find((directive) => directive.name.value === 'authenticate')
+            // Replay the operation with a refreshed access token if the server rejects the access token.
+            // Only the access token that was sent is invalidated, not one that was stored in the meantime
+            const sentAccessToken = (this.options.accessToken || skipAuth) ?
+              null :
+              this.getAccessTokenFromHeaders(authHeaders);
+            let replayed = false;
+            const replayIfRejected = (isRejected: boolean): boolean => {
+              if (
+                !isRejected ||
+                !sentAccessToken ||
+                !this.hasRefreshToken() ||
+                retryCount >= this.getMaxAuthRetries()
               ) {
-                const fieldName = field.alias ? field.alias.value : field.name.value;
-                // Subscribe to result to set auth token set
-                resultListeners.push((result) => {
-                  // Validate auth token set and update tokens if valid
-                  if (
-                    result.data &&
-                    result.data.hasOwnProperty(fieldName) &&
-                    typeof result.data[fieldName] === 'object'
-                  ) {
-                    const tokenSet = result.data[fieldName];
-                    this.validateAndSetAuthTokenSet(tokenSet);
-                  } else {
-                    this.debug('No valid token set returned');
-                  }
-                });
+                return false;
               }
+              this.log('info', 'operation.accessTokenRejected', {
+                operationName: operation.operationName,
+                retryCount,
+              });
+              replayed = true;
+              if (subscription) {
+                subscription.unsubscribe();
+              }
+              this.invalidateAccessToken(sentAccessToken);
+              forwardOperation(retryCount + 1);
+              return true;
+            };
+
+            const nextObservable = forward(operation);
+
+            // Add result listeners for token and logout processing
+            subscription = nextObservable.subscribe({
+              complete(): void {
+                if (!replayed) {
+                  observer.complete();
+                }
+              },
+              error: (errorValue: any): void => {
+                if (!replayed && !replayIfRejected(this.isUnauthenticatedError(errorValue))) {
+                  observer.error(errorValue);
+                }
+              },
+              next: (value: FetchResult): void => {
+                if (replayed || replayIfRejected(this.isUnauthenticatedResult(value))) {
+                  return;
+                }
+                this.updateClockSkewFromResponse(operation.getContext().response);
+                resultListeners.forEach((listener) => listener(value));
+                observer.next(value);
+              },
             });
-          }
-          // Remove @authenticated directives from document
-          operation.query = removeDirectivesFromDocument(
-            [ authenticationDirectiveRemoveConfig ],
-            operation.query,
-          );
-          const nextObservable = forward(operation);
-
-          // Add result listeners for token and logout processing
-          nextObservable.subscribe({
-            complete(): void {
-              observer.complete();
-            },
-            error(errorValue: any): void {
-              observer.error(errorValue);
-            },
-            next(value: FetchResult): void {
-              resultListeners.forEach((listener) => listener(value));
-              observer.next(value);
-            },
+          })
+          .catch((error) => {
+            this.log('warn', 'operation.authHeadersFailed', {
+              operationName: operation.operationName,
+              error: error.message,
+            });
+            if (!cancelled) {
+              observer.error(error);
+            }
           });
-        })
-        .catch((error) => {
-          this.debug('Error obtaining auth headers in SlicknodeLink');
-          observer.error(error);
-        });
+      };
+      forwardOperation(0);
+
+      return () => {
+        cancelled = true;
+        if (subscription) {
+          subscription.unsubscribe();
+          subscription = null;
+        }
+      };
     });
   }
 
@@ -188,12 +639,80 @@ export default class SlicknodeLink extends ApolloLink {
   /**
    * Updates the auth token set
    * @param token
+   * @param session The name of the session, default is the active session
    */
-  public setAuthTokenSet(token: IAuthTokenSet): void {
-    this.setAccessToken(token.accessToken);
-    this.setAccessTokenExpires(token.accessTokenLifetime * 1000 + Date.now());
-    this.setRefreshToken(token.refreshToken);
-    this.setRefreshTokenExpires(token.refreshTokenLifetime * 1000 + Date.now());
+  public setAuthTokenSet(token: IAuthTokenSet, session?: string): void {
+    this.setStoredAuthTokenSet({
+      accessToken: token.accessToken,
+      accessTokenExpires: this.getTokenExpires(token.accessToken, token.accessTokenLifetime),
+      refreshToken: token.refreshToken,
+      refreshTokenExpires: this.getTokenExpires(token.refreshToken, token.refreshTokenLifetime),
+    }, session);
+  }
+
+  /**
+   * Returns the names of all sessions that have auth tokens
+   *
+   * @returns {string[]}
+   */
+  public getSessions(): string[] {
+    let sessions: string[] = [];
+    try {
+      sessions = JSON.parse(this.storage.getItem(this.namespace + SESSIONS_KEY) || '[]');
+    } catch (e) {
+      this.log('warn', 'sessions.invalid');
+    }
+    // Tokens of default session might have been stored before sessions were added
+    if (!sessions.includes(DEFAULT_SESSION) && this.storage.getItem(this.getStorageKey(REFRESH_TOKEN_KEY, DEFAULT_SESSION))) {
+      sessions.unshift(DEFAULT_SESSION);
+    }
+    return sessions;
+  }
+
+  /**
+   * Returns the name of the session whose tokens are used to authenticate requests
+   *
+   * @returns {string}
+   */
+  public getActiveSession(): string {
+    return this.storage.getItem(this.namespace + ACTIVE_SESSION_KEY) || DEFAULT_SESSION;
+  }
+
+  /**
+   * Switches to the session with the given name. Subsequent requests are authenticated with
+   * the tokens of that session
+   *
+   * @param session
+   */
+  public setActiveSession(session: string): void {
+    if (session === this.getActiveSession()) {
+      return;
+    }
+    this.log('info', 'session.activated', {session});
+    this.storage.setItem(this.namespace + ACTIVE_SESSION_KEY, session);
+    this.scheduleRefresh();
+    this.emitAuthStateChange('sessionChange');
+  }
+
+  /**
+   * Returns the difference between the server clock and the client clock in milliseconds.
+   * Only determined if the option compensateClockSkew is enabled
+   *
+   * @returns {number}
+   */
+  public getClockSkew(): number {
+    const clockSkew = this.storage.getItem(this.namespace + CLOCK_SKEW_KEY);
+    return clockSkew ? parseInt(clockSkew, 10) || 0 : 0;
+  }
+
+  /**
+   * Returns the claims of the access token if it is a JWT, NULL if there is no valid access token
+   *
+   * @returns {IJwtClaims|null}
+   */
+  public getAccessTokenClaims(): IJwtClaims | null {
+    const accessToken = this.options.accessToken || this.getAccessToken();
+    return accessToken ? decodeJwt(accessToken) : null;
   }
 
   /**
@@ -201,7 +720,7 @@ export default class SlicknodeLink extends ApolloLink {
    * @param token
    */
   public setRefreshToken(token: string) {
-    const key = this.namespace + REFRESH_TOKEN_KEY;
+    const key = this.getStorageKey(REFRESH_TOKEN_KEY);
     this.storage.setItem(key, token);
   }
 
@@ -210,10 +729,10 @@ export default class SlicknodeLink extends ApolloLink {
    * @returns {string|null}
    */
   public getRefreshToken(): string | null {
-    if ((this.getRefreshTokenExpires() || 0) < Date.now()) {
+    if ((this.getRefreshTokenExpires() || 0) - this.getExpiryLeeway() < Date.now()) {
       return null;
     }
-    const key = this.namespace + REFRESH_TOKEN_KEY;
+    const key = this.getStorageKey(REFRESH_TOKEN_KEY);
     return this.storage.getItem(key);
   }
 
@@ -221,7 +740,7 @@ export default class SlicknodeLink extends ApolloLink {
    * Sets the time when the auth token expires
    */
   public setAccessTokenExpires(timestamp: number | null) {
-    const key = this.namespace + ACCESS_TOKEN_EXPIRES_KEY;
+    const key = this.getStorageKey(ACCESS_TOKEN_EXPIRES_KEY);
     if (timestamp) {
       this.storage.setItem(key, String(timestamp));
     } else {
@@ -234,7 +753,7 @@ export default class SlicknodeLink extends ApolloLink {
    * @returns {number|null}
    */
   public getRefreshTokenExpires(): number | null {
-    const key = this.namespace + REFRESH_TOKEN_EXPIRES_KEY;
+    const key = this.getStorageKey(REFRESH_TOKEN_EXPIRES_KEY);
     const expires = this.storage.getItem(key);
     return expires ? parseInt(expires, 10) : null;
   }
@@ -245,8 +764,12 @@ export default class SlicknodeLink extends ApolloLink {
   public setRefreshTokenExpires(
     timestamp: number | null,
   ): void {
-    const key = this.namespace + REFRESH_TOKEN_EXPIRES_KEY;
-    this.storage.setItem(key, String(timestamp));
+    const key = this.getStorageKey(REFRESH_TOKEN_EXPIRES_KEY);
+    if (timestamp) {
+      this.storage.setItem(key, String(timestamp));
+    } else {
+      this.storage.removeItem(key);
+    }
   }
 
   /**
@@ -254,7 +777,7 @@ export default class SlicknodeLink extends ApolloLink {
    * @returns {number|null}
    */
   public getAccessTokenExpires(): number | null {
-    const key = this.namespace + ACCESS_TOKEN_EXPIRES_KEY;
+    const key = this.getStorageKey(ACCESS_TOKEN_EXPIRES_KEY);
     const expires = this.storage.getItem(key) || null;
     return expires ? parseInt(expires, 10) : null;
   }
@@ -264,7 +787,7 @@ export default class SlicknodeLink extends ApolloLink {
    * @param token
    */
   public setAccessToken(token: string): void {
-    const key = this.namespace + ACCESS_TOKEN_KEY;
+    const key = this.getStorageKey(ACCESS_TOKEN_KEY);
     this.storage.setItem(key, token);
   }
 
@@ -274,110 +797,1209 @@ export default class SlicknodeLink extends ApolloLink {
    */
   public getAccessToken(): string | null {
     // Check if is expired
-    if ((this.getAccessTokenExpires() || 0) < Date.now()) {
+    if ((this.getAccessTokenExpires() || 0) - this.getExpiryLeeway() < Date.now()) {
       return null;
     }
-    const key = this.namespace + ACCESS_TOKEN_KEY;
+    const key = this.getStorageKey(ACCESS_TOKEN_KEY);
     return this.storage.getItem(key) || null;
   }
 
   /**
-   * Clears all tokens in the storage
+   * Returns a serializable snapshot of the auth tokens of the active session that can be passed
+   * to hydrateAuthState of another SlicknodeLink, NULL if there is no valid access token
+   *
+   * @param options
+   */
+  public exportAuthState(options: IExportAuthStateOptions = {}): IAuthStateSnapshot | null {
+    const accessToken = this.getAccessToken();
+    if (!accessToken) {
+      return null;
+    }
+    const refreshToken = options.includeRefreshToken === false ? null : this.getRefreshToken();
+    return {
+      version: AUTH_STATE_VERSION,
+      accessToken,
+      // Snapshots are passed to other clients, so the expiration timestamps are exported in server time
+      accessTokenExpires: this.toServerTime(this.getAccessTokenExpires()),
+      refreshToken,
+      refreshTokenExpires: refreshToken ? this.toServerTime(this.getRefreshTokenExpires()) : null,
+    };
+  }
+
+  /**
+   * Writes the auth tokens of a snapshot that was created with exportAuthState to the active session.
+   * If the snapshot has no refresh token, the stored refresh token is removed
+   *
+   * @param snapshot
+   * @returns False if the snapshot is invalid or expired
    */
-  public async logout(): Promise<void> {
-    this.storage.removeItem(this.namespace + REFRESH_TOKEN_KEY);
-    this.storage.removeItem(this.namespace + REFRESH_TOKEN_EXPIRES_KEY);
-    this.storage.removeItem(this.namespace + ACCESS_TOKEN_KEY);
-    this.storage.removeItem(this.namespace + ACCESS_TOKEN_EXPIRES_KEY);
+  public hydrateAuthState(snapshot: IAuthStateSnapshot): boolean {
+    if (!this.isValidAuthStateSnapshot(snapshot)) {
+      this.log('warn', 'authState.invalidSnapshot');
+      return false;
+    }
+    // A stored refresh token is removed as well, it might belong to another user than the snapshot
+    this.setStoredAuthTokenSet({
+      accessToken: snapshot.accessToken,
+      accessTokenExpires: this.toClientTime(snapshot.accessTokenExpires),
+      refreshToken: snapshot.refreshToken || null,
+      refreshTokenExpires: snapshot.refreshToken ? this.toClientTime(snapshot.refreshTokenExpires) : null,
+    });
+    this.log('info', 'authState.hydrated', {
+      accessTokenExpires: snapshot.accessTokenExpires,
+      refreshTokenExpires: snapshot.refreshTokenExpires,
+    });
+    this.instrument('onLogin', {session: this.getActiveSession()});
+    this.emitAuthStateChange('login');
+    return true;
+  }
+
+  /**
+   * Clears all tokens of the session in the storage
+   *
+   * @param session The name of the session, default is the active session
+   */
+  public async logout(session?: string): Promise<void> {
+    this.clearAuthTokenSet(session);
+    this.instrument('onLogout', {session: session || this.getActiveSession()});
+    this.emitAuthStateChange('logout', true, session);
+    await this.ready();
+  }
+
+  /**
+   * Clears the tokens of all sessions in the storage
+   */
+  public async logoutAll(): Promise<void> {
+    const sessions = this.getSessions();
+    // The active session is not listed if it only has an access token, for example after setAccessToken
+    if (sessions.indexOf(this.getActiveSession()) === -1) {
+      sessions.push(this.getActiveSession());
+    }
+    await Promise.all(sessions.map((session) => this.logout(session)));
+  }
+
+  /**
+   * Invalidates the refresh token on the server with the logout mutation and removes all tokens
+   * from the storage. The local tokens are removed even if the mutation fails.
+   *
+   * The mutation is sent through the links that follow SlicknodeLink, so at least
+   * one request has to be executed via the link before.
+   */
+  public async logoutFromServer(): Promise<ILogoutResult> {
+    await this.storageReady;
+    let result: ILogoutResult;
+    const refreshToken = this.getRefreshToken();
+    if (!this.forward) {
+      result = {
+        success: false,
+        result: null,
+        error: new Error('No request was executed via SlicknodeLink, cannot send logout mutation to server'),
+      };
+    } else if (!refreshToken) {
+      result = {
+        success: true,
+        result: null,
+        error: null,
+      };
+    } else {
+      result = await this.executeLogout(this.forward, refreshToken);
+    }
+
+    if (result.success) {
+      this.log('info', 'logoutFromServer.success');
+    } else {
+      this.log('warn', 'logoutFromServer.failed', {error: result.error ? result.error.message : null});
+    }
+    await this.logout();
+    return result;
   }
 
   /**
    * Returns the headers that are required to authenticate at the GraphQL endpoint.
    * If no access tokens are available, an attempt is made to retrieve it from the backend
-   * with the refreshToken
+   * with the refreshToken. Operations that arrive during a refresh wait for its result
+   *
+   * @param forward
+   * @param operation The operation for which the headers are loaded
    */
-  public getAuthHeaders(forward: NextLink): Promise<HeadersInit> {
-    // Check if headers are already being loaded
-    if (!this.loadHeadersPromise) {
+  public async getAuthHeaders(forward: NextLink, operation: Operation | null = null): Promise<HeadersInit> {
+    // Wait for tokens to be loaded from async storage
+    await this.storageReady;
+
+    if (this.options.accessToken) {
+      return this.createAuthHeaders(this.options.accessToken);
+    }
+
+    if (this.refreshCoordinator.getState() === 'refreshing') {
+      this.log('debug', 'authHeaders.waitForRefresh', {waiters: this.refreshCoordinator.getWaiterCount()});
+      return this.waitForRefresh();
+    }
+
+    const accessToken = this.getAccessToken();
+    if (accessToken) {
+      this.log('debug', 'authHeaders.validAccessToken', {accessTokenExpires: this.getAccessTokenExpires()});
+      this.refreshCoordinator.setState('authenticated');
+      return this.createAuthHeaders(accessToken);
+    }
+
+    const refreshToken = this.getRefreshToken();
+    if (refreshToken) {
+      this.log('debug', 'authHeaders.refreshRequired', {refreshTokenExpires: this.getRefreshTokenExpires()});
+      this.startRefresh(this.createRefreshForward(forward, operation), refreshToken, (release) => {
+        // Send pending requests without auth headers while retrying
+        if (this.options.waitForRefreshRetry === false) {
+          release({});
+        }
+      });
+      return this.waitForRefresh();
+    }
+
+    this.refreshCoordinator.setState('anonymous');
+
+    // Remove expired tokens from storage
+    if (this.storage.getItem(this.getStorageKey(REFRESH_TOKEN_KEY))) {
+      this.log('info', 'authTokens.expired', {session: this.getActiveSession()});
+      this.clearAuthTokenSet();
+      this.emitAuthStateChange('expired');
+      if (this.options.strictAuth) {
+        throw new SlicknodeAuthError('NOT_AUTHENTICATED', 'Auth tokens expired');
+      }
+    }
+    return {};
+  }
+
+  /**
+   * Refreshes the auth token set before returning the auth headers, even if the access token is still valid.
+   * The current access token is kept until the new auth token set is stored
+   *
+   * @param forward
+   * @param operation The operation that requested the refresh
+   */
+  protected async getRefreshedAuthHeaders(forward: NextLink, operation: Operation): Promise<HeadersInit> {
+    await this.storageReady;
+
+    const refreshToken = this.getRefreshToken();
+    if (!this.options.accessToken && refreshToken) {
+      this.log('debug', 'operation.forceRefresh', {operationName: operation.operationName});
+      // Operations wait for a refresh that is already running instead of starting another one
+      this.startRefresh(this.createRefreshForward(forward, operation), refreshToken, (release) => {
+        if (this.options.waitForRefreshRetry === false) {
+          release(this.getValidAuthHeaders());
+        }
+      });
+    }
+    return this.getAuthHeaders(forward, operation);
+  }
+
+  /**
+   * Returns the state of the refresh of the auth token set
+   */
+  public getRefreshState(): RefreshState {
+    return this.refreshCoordinator.getState();
+  }
+
+  /**
+   * Starts the refresh of the auth token set via the refresh coordinator, if no refresh is in progress
+   *
+   * @param forward
+   * @param refreshToken
+   * @param onRetry Called with a function to send waiting operations with the given headers, before the
+   *   first retry of the refresh
+   */
+  protected startRefresh(
+    forward: NextLink,
+    refreshToken: string,
+    onRetry?: (release: (headers: HeadersInit) => void) => void,
+  ): boolean {
+    return this.refreshCoordinator.start((release, isCancelled) => this.refreshAuthTokenSet(
+      forward,
+      refreshToken,
+      onRetry ? () => onRetry(release) : undefined,
+      isCancelled,
+    )
+      .then(
+        () => this.getValidAuthHeaders(),
+        (error) => {
+          // A failed forced refresh keeps the access token, which is still usable if it didn't expire
+          if (this.hasAccessToken()) {
+            return this.getValidAuthHeaders();
+          }
+          throw error;
+        },
+      ));
+  }
+
+  /**
+   * Returns the auth headers for the current access token, an empty object if there is no valid access token
+   */
+  protected getValidAuthHeaders(): HeadersInit {
+    return this.hasAccessToken() ? this.createAuthHeaders(this.getAccessToken()) : {};
+  }
+
+  /**
+   * Returns the function that executes the refresh operation, either via the refreshLink or
+   * via the links that follow SlicknodeLink
+   *
+   * @param forward
+   * @param operation The operation that triggered the refresh, NULL for background refreshes
+   */
+  protected createRefreshForward(forward: NextLink, operation: Operation | null): NextLink {
+    const {refreshLink, getRefreshContext} = this.options;
+    return (refreshOperation) => {
+      if (getRefreshContext) {
+        refreshOperation.setContext(getRefreshContext(operation));
+      }
+      if (!refreshLink) {
+        return forward(refreshOperation);
+      }
+      const missingTerminatingLink = () => new Observable<FetchResult>((observer) => {
+        observer.error(new Error('The refreshLink returned no result, it has to be a terminating link'));
+      });
+      return refreshLink.request(refreshOperation, missingTerminatingLink) || missingTerminatingLink();
+    };
+  }
+
+  /**
+   * Waits for the refresh in progress and returns the auth headers. If the refresh failed,
+   * the error is thrown in strict mode, otherwise empty headers are returned
+   */
+  protected async waitForRefresh(): Promise<HeadersInit> {
+    const startedAt = Date.now();
+    try {
+      return await this.refreshCoordinator.wait();
+    } catch (error) {
+      if (this.options.strictAuth) {
+        throw error;
+      }
+      return {};
+    } finally {
+      this.instrument('onHeadersWait', {duration: Date.now() - startedAt});
+    }
+  }
+
+  /**
+   * Obtains a new auth token set from the API with the refresh token and updates the storage.
+   * The tokens are removed if the refresh token is rejected. On transient errors, the tokens are kept
+   * and the refresh is retried with exponential backoff. Rejects with a SlicknodeAuthError if the
+   * refresh failed.
+   *
+   * @param forward
+   * @param refreshToken
+   * @param onRetry Called before the first retry of the refresh
+   * @param isCancelled Returns true if the refresh timed out and no further attempts should be made
+   */
+  protected async refreshAuthTokenSet(
+    forward: NextLink,
+    refreshToken: string,
+    onRetry?: () => void,
+    isCancelled: () => boolean = () => false,
+  ): Promise<void> {
+    const maxRetries = this.getRefreshRetries();
+    for (let attempt = 0; ; attempt++) {
+      const completed = await this.refreshAuthTokenSetOnce(forward, refreshToken, isCancelled);
+      if (completed || this.disposed || isCancelled() || this.getRefreshToken() !== refreshToken) {
+        return;
+      }
+      if (attempt >= maxRetries) {
+        throw new SlicknodeAuthError(
+          'REFRESH_FAILED',
+          `Refreshing auth token set failed after ${attempt + 1} attempts`,
+        );
+      }
+      if (attempt === 0 && onRetry) {
+        onRetry();
+      }
+      const delay = this.getRefreshRetryDelay(attempt);
+      this.log('warn', 'refresh.retry', {attempt: attempt + 1, delay});
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      if (isCancelled()) {
+        this.log('debug', 'refresh.retryCancelled', {attempt: attempt + 1});
+        return;
+      }
+    }
+  }
+
+  /**
+   * Returns the maximum number of retries of the refresh after transient errors
+   */
+  protected getRefreshRetries(): number {
+    return typeof this.options.refreshRetries === 'number' ?
+      this.options.refreshRetries :
+      DEFAULT_REFRESH_RETRIES;
+  }
+
+  /**
+   * Returns the time in milliseconds after which a refresh is aborted. The default leaves room
+   * for the maximum delays of all retries, so the refresh is not aborted while retrying
+   */
+  protected getRefreshTimeout(): number {
+    if (typeof this.options.refreshTimeout === 'number') {
+      return this.options.refreshTimeout * 1000;
+    }
+    const {
+      refreshRetryDelay = DEFAULT_REFRESH_RETRY_DELAY,
+      maxRefreshRetryDelay = DEFAULT_MAX_REFRESH_RETRY_DELAY,
+    } = this.options;
+    let retryDelays = 0;
+    for (let attempt = 0; attempt < this.getRefreshRetries(); attempt++) {
+      retryDelays += Math.min(refreshRetryDelay * Math.pow(2, attempt), maxRefreshRetryDelay);
+    }
+    return (DEFAULT_REFRESH_TIMEOUT + retryDelays) * 1000;
+  }
+
+  /**
+   * Executes a single attempt to refresh the auth token set.
+   *
+   * If a sync channel is configured, the refresh is executed while holding a lock across
+   * all contexts, so the refresh token is only used once
+   *
+   * @param forward
+   * @param refreshToken
+   * @param isCancelled Returns true if the refresh timed out and its result has to be ignored
+   * @returns False if the refresh failed with a transient error and can be retried
+   */
+  protected refreshAuthTokenSetOnce(
+    forward: NextLink,
+    refreshToken: string,
+    isCancelled: () => boolean = () => false,
+  ): Promise<boolean> {
+    if (!this.options.sync) {
+      return this.executeRefresh(forward, refreshToken, isCancelled);
+    }
+    return this.options.sync.withLock(this.getStorageKey(REFRESH_LOCK_KEY), async () => {
+      // Tokens might have been refreshed in other context while waiting for the lock
+      if (this.getRefreshToken() !== refreshToken) {
+        this.log('debug', 'refresh.updatedInOtherContext');
+        return true;
+      }
+      return this.executeRefresh(forward, refreshToken, isCancelled);
+    });
+  }
+
+  /**
+   * Returns the delay in milliseconds before the given retry of the refresh,
+   * exponentially increasing with random jitter
+   *
+   * @param attempt The number of the failed attempt, starting at 0
+   */
+  protected getRefreshRetryDelay(attempt: number): number {
+    const {
+      refreshRetryDelay = DEFAULT_REFRESH_RETRY_DELAY,
+      maxRefreshRetryDelay = DEFAULT_MAX_REFRESH_RETRY_DELAY,
+    } = this.options;
+    const delay = Math.min(refreshRetryDelay * Math.pow(2, attempt), maxRefreshRetryDelay) * 1000;
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+  }
+
+  /**
+   * Executes the refresh token mutation and updates the storage. The result of a refresh
+   * that timed out is ignored if a newer refresh or login replaced the refresh token in the meantime
+   *
+   * @param forward
+   * @param refreshToken
+   * @param isCancelled Returns true if the refresh timed out
+   * @returns False if the refresh failed with a transient error or completed without result and the tokens
+   *   were kept, rejects with a SlicknodeAuthError if the refresh failed otherwise
+   */
+  protected executeRefresh(
+    forward: NextLink,
+    refreshToken: string,
+    isCancelled: () => boolean = () => false,
+  ): Promise<boolean> {
+    // Update the session that was active when the refresh started
+    const session = this.getActiveSession();
+    const startedAt = Date.now();
+    // Every attempt is reported once, either with its result or when it timed out
+    let reported = false;
+    const reportEnd = (outcome: RefreshOutcome) => {
+      if (reported) {
+        return;
+      }
+      reported = true;
+      if (this.reportRefreshTimeout === reportTimeout) {
+        this.reportRefreshTimeout = null;
+      }
+      this.instrument('onRefreshEnd', {session, duration: Date.now() - startedAt, outcome});
+    };
+    const reportTimeout = () => reportEnd('timeout');
+    this.reportRefreshTimeout = reportTimeout;
+    this.instrument('onRefreshStart', {session});
+    return new Promise<boolean>((resolve, reject) => {
+      const {
+        refreshMutation = REFRESH_TOKEN_MUTATION,
+        getRefreshVariables = defaultGetRefreshVariables,
+        getRefreshResult = defaultGetRefreshResult,
+        isTransientRefreshError = defaultIsTransientRefreshError,
+      } = this.options;
+      const refreshOperation = createOperation({}, {
+        query: refreshMutation,
+        variables: getRefreshVariables(refreshToken),
+      });
+      // Ignores the result of a refresh that timed out, returns false if the refresh is still current.
+      // A late token set is still stored if no newer refresh or login replaced the refresh token
+      const ignoreTimedOutResult = (tokenSet: IAuthTokenSet | null = null) => {
+        if (!isCancelled() || (tokenSet && !this.isRefreshTokenReplaced(session, refreshToken))) {
+          return false;
+        }
+        this.log('warn', 'refresh.timedOutResultIgnored', {session, duration: Date.now() - startedAt});
+        reportEnd('timeout');
+        resolve(true);
+        return true;
+      };
+      let receivedResult = false;
+      const observer = forward(refreshOperation);
+      observer.subscribe({
+        error: (error) => {
+          receivedResult = true;
+          if (ignoreTimedOutResult()) {
+            return;
+          }
+          const transient = isTransientRefreshError(error);
+          this.log('warn', 'refresh.error', {
+            session,
+            duration: Date.now() - startedAt,
+            error: error.message,
+            transient,
+          });
+          reportEnd(transient ? 'transient' : 'failed');
+          this.emitAuthStateChange('refreshFailed', true, session);
+          if (transient) {
+            resolve(false);
+            return;
+          }
+          this.logoutAfterFailedRefresh(session, refreshToken);
+          reject(new SlicknodeAuthError(
+            'REFRESH_FAILED',
+            `Refreshing auth token set failed: ${error.message}`,
+            error,
+          ));
+        },
+        next: (result) => {
+          receivedResult = true;
+          const tokenSet = result.data ? getRefreshResult(result.data) : null;
+          if (ignoreTimedOutResult(tokenSet)) {
+            return;
+          }
+          this.updateClockSkewFromResponse(refreshOperation.getContext().response);
+          if (tokenSet) {
+            if (this.validateAndSetAuthTokenSet(tokenSet, session)) {
+              this.log('info', 'refresh.success', {
+                session,
+                duration: Date.now() - startedAt,
+                accessTokenExpires: this.getStoredTimestamp(ACCESS_TOKEN_EXPIRES_KEY, session),
+                refreshTokenExpires: this.getStoredTimestamp(REFRESH_TOKEN_EXPIRES_KEY, session),
+              });
+              reportEnd('success');
+              this.emitAuthStateChange('refresh', true, session);
+              resolve(true);
+            } else {
+              this.log('warn', 'refresh.invalidTokenSet', {session, duration: Date.now() - startedAt});
+              reportEnd('invalid');
+              this.emitAuthStateChange('refreshFailed', true, session);
+              this.logoutAfterFailedRefresh(session, refreshToken);
+              reject(new SlicknodeAuthError('TOKEN_INVALID', 'Refresh mutation returned an invalid auth token set'));
+            }
+          } else {
+            // GraphQL errors like an internal server error during an outage don't invalidate the tokens
+            const transient = (result.errors || []).some((error) => isTransientRefreshError(error));
+            this.log('warn', 'refresh.failed', {
+              session,
+              duration: Date.now() - startedAt,
+              errors: (result.errors || []).map((error) => error.message),
+              transient,
+            });
+            reportEnd(transient ? 'transient' : 'failed');
+            this.emitAuthStateChange('refreshFailed', true, session);
+            if (transient) {
+              resolve(false);
+              return;
+            }
+            this.logoutAfterFailedRefresh(session, refreshToken);
+            reject(new SlicknodeAuthError(
+              'REFRESH_FAILED',
+              result.errors && result.errors.length ?
+                `Refreshing auth token set failed: ${result.errors.map((error) => error.message).join('\n')}` :
+                'Refresh mutation returned no auth token set',
+            ));
+          }
+        },
+        complete: () => {
+          // A link that swallows the result, like an error link, completes the refresh without result
+          if (receivedResult || ignoreTimedOutResult()) {
+            return;
+          }
+          this.log('warn', 'refresh.noResult', {session, duration: Date.now() - startedAt});
+          reportEnd('transient');
+          this.emitAuthStateChange('refreshFailed', true, session);
+          resolve(false);
+        },
+      });
+    });
+  }
+
+  /**
+   * Logs out the session after its refresh token was rejected. The session is kept if its refresh token
+   * was replaced while the refresh was in progress, for example by a login or by another context
+   *
+   * @param session
+   * @param refreshToken The refresh token that was sent with the refresh
+   */
+  protected logoutAfterFailedRefresh(session: string, refreshToken: string): void {
+    if (this.isRefreshTokenReplaced(session, refreshToken)) {
+      this.log('info', 'refresh.tokenReplaced', {session});
+      return;
+    }
+    this.logout(session);
+  }
+
+  /**
+   * Returns true if the stored refresh token of the session is no longer the given refresh token
+   *
+   * @param session
+   * @param refreshToken
+   */
+  protected isRefreshTokenReplaced(session: string, refreshToken: string): boolean {
+    return this.storage.getItem(this.getStorageKey(REFRESH_TOKEN_KEY, session)) !== refreshToken;
+  }
+
+  /**
+   * Executes the logout mutation to invalidate the refresh token on the server
+   *
+   * @param forward
+   * @param refreshToken
+   */
+  protected executeLogout(forward: NextLink, refreshToken: string): Promise<ILogoutResult> {
+    return new Promise<ILogoutResult>((resolve) => {
       const accessToken = this.options.accessToken || this.getAccessToken();
+      const logoutOperation = createOperation(accessToken ? {headers: this.createAuthHeaders(accessToken)} : {}, {
+        query: this.options.logoutMutation || LOGOUT_MUTATION,
+        variables: {
+          refreshToken,
+        },
+      });
+      forward(logoutOperation).subscribe({
+        error: (error) => {
+          resolve({
+            success: false,
+            result: null,
+            error,
+          });
+        },
+        next: (result) => {
+          const success = !result.errors || result.errors.length === 0;
+          resolve({
+            success,
+            result,
+            error: success ? null : new Error(result.errors.map((error) => error.message).join('\n')),
+          });
+        },
+        complete: () => {
+          resolve({
+            success: false,
+            result: null,
+            error: new Error('Logout mutation completed without result'),
+          });
+        },
+      });
+    });
+  }
 
-      if (accessToken) {
-        this.debug('Using valid access token');
-        return Promise.resolve({
-          Authorization: `Bearer ${accessToken}`,
-        });
+  /**
+   * Schedules the background refresh of the auth token set, if enabled via options.refreshBeforeExpiry
+   */
+  protected scheduleRefresh(): void {
+    this.cancelScheduledRefresh();
+    const refreshBeforeExpiry = this.options.refreshBeforeExpiry;
+    if (this.disposed || typeof refreshBeforeExpiry !== 'number' || this.options.accessToken) {
+      return;
+    }
+    const accessTokenExpires = this.getAccessTokenExpires();
+    if (!accessTokenExpires || !this.getRefreshToken()) {
+      return;
+    }
+
+    // Requests treat the access token as expired when the leeway starts
+    const expiresAt = accessTokenExpires - this.getExpiryLeeway();
+    const now = Date.now();
+    if (expiresAt <= now) {
+      // Expired access tokens are refreshed with the next request
+      return;
+    }
+    // Refresh halfway through the remaining lifetime if it is shorter than refreshBeforeExpiry,
+    // otherwise every refreshed token set would immediately be refreshed again
+    const refreshAt = Math.max(
+      expiresAt - refreshBeforeExpiry * 1000,
+      now + Math.floor((expiresAt - now) / 2),
+    );
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      if (refreshAt > Date.now()) {
+        // Delay was longer than supported by setTimeout
+        this.scheduleRefresh();
+      } else {
+        this.refreshInBackground();
       }
-      this.loadHeadersPromise = new Promise<{[key: string]: string}>((resolve, reject) => {
-        const refreshToken = this.getRefreshToken();
-
-        // We have no token, try to get it from API via next link
-        if (!accessToken && refreshToken) {
-          this.debug('No valid access token found, obtaining new AuthTokenSet with refresh token');
-          const refreshOperation = createOperation({}, {
-            query: REFRESH_TOKEN_MUTATION,
-            variables: {
-              token: refreshToken,
-            },
+    }, Math.min(Math.max(refreshAt - Date.now(), 0), MAX_TIMEOUT));
+
+    // Don't keep Node processes alive only for the background refresh
+    const refreshTimer = this.refreshTimer as {unref?: () => void};
+    if (typeof refreshTimer.unref === 'function') {
+      refreshTimer.unref();
+    }
+  }
+
+  /**
+   * Cancels the scheduled background refresh
+   */
+  protected cancelScheduledRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Refreshes the auth token set in the background, before the access token expires
+   */
+  protected refreshInBackground(): void {
+    const refreshToken = this.getRefreshToken();
+    const forward = this.getRefreshFallbackForward();
+    if (!forward || !refreshToken) {
+      this.log('debug', 'backgroundRefresh.skipped', {
+        reason: forward ? 'refreshTokenExpired' : 'noRequestExecuted',
+      });
+      return;
+    }
+    if (this.refreshCoordinator.getState() === 'refreshing') {
+      this.log('debug', 'backgroundRefresh.skipped', {reason: 'refreshInProgress'});
+      return;
+    }
+    this.log('debug', 'backgroundRefresh.start', {accessTokenExpires: this.getAccessTokenExpires()});
+    this.startRefresh(this.createRefreshForward(forward, null), refreshToken);
+  }
+
+  /**
+   * Returns the forward function for refreshes outside of a request, NULL if no request was executed
+   * via the link yet and no refreshLink is configured
+   */
+  protected getRefreshFallbackForward(): NextLink | null {
+    if (this.forward) {
+      return this.forward;
+    }
+    if (!this.options.refreshLink) {
+      return null;
+    }
+    // The refreshLink sends the refresh mutation without the links that follow SlicknodeLink
+    return () => new Observable<FetchResult>((observer) => {
+      observer.error(new Error('No request was executed via the link'));
+    });
+  }
+
+  /**
+   * Returns the listeners that process the results of mutations with
+   * the @authenticate directive or logout fields
+   *
+   * @param operation
+   */
+  protected getResultListeners(operation: Operation): ((value: any) => void)[] {
+    const definitions = operation.query.definitions;
+    // Find current operation in definitions
+    const currentOperation: OperationDefinitionNode | null = definitions.find((operationDefinition) => {
+      return (
+        operationDefinition.kind === 'OperationDefinition' &&
+        (
+          (operationDefinition.name && operationDefinition.name.value === operation.operationName) ||
+          !operationDefinition.name
+        )
+      );
+    }) as OperationDefinitionNode | null;
+
+    // Check mutations for directives and logoutMutation
+    const resultListeners: ((value: any) => void)[] = [];
+    if (currentOperation && currentOperation.operation === 'mutation') {
+      // Collect fields recursively from fragments
+      const fragments: {[name: string]: FragmentDefinitionNode} = {};
+      definitions.forEach((definition) => {
+        if (definition.kind === 'FragmentDefinition') {
+          fragments[definition.name.value] = definition;
+        }
+      });
+      const fields = collectFields(currentOperation.selectionSet, fragments, (fragmentName) => {
+        this.log('error', 'document.fragmentNotFound', {operationName: operation.operationName, fragmentName});
+      });
+
+      // Fields with the same result key can be selected in multiple fragments, handle them once
+      const handledFieldNames: {[fieldName: string]: boolean} = {};
+      const logoutFields = this.options.logoutFields || DEFAULT_LOGOUT_FIELDS;
+      fields.forEach((field) => {
+        const fieldName = field.alias ? field.alias.value : field.name.value;
+        if (handledFieldNames[fieldName]) {
+          return;
+        }
+
+        if (logoutFields.includes(field.name.value)) {
+          handledFieldNames[fieldName] = true;
+          // Subscribe to result to remove auth tokens from storage
+          resultListeners.push(() => {
+            this.log('info', 'logout.fieldReceived', {operationName: operation.operationName, fieldName});
+            this.logout();
           });
-          const observer = forward(refreshOperation);
-          observer.subscribe({
-            error: (error) => {
-              this.debug(`Error refreshing AuthTokenSet: ${error.message}`);
-              this.logout();
-              this.loadHeadersPromise = null;
-              resolve({});
-            },
-            next: (result) => {
-              this.loadHeadersPromise = null;
-              if (result.data && result.data.refreshAuthToken) {
-                if (!this.validateAndSetAuthTokenSet(result.data.refreshAuthToken)) {
-                  this.logout();
-                }
-              } else {
-                this.debug('Refreshing auth token mutation failed');
-                this.logout();
+        } else if (
+          field.directives &&
+          field.directives.find((directive) => directive.name.value === 'authenticate')
+        ) {
+          handledFieldNames[fieldName] = true;
+          const session = this.getDirectiveSession(
+            field.directives.find((directive) => directive.name.value === 'authenticate'),
+            operation.variables,
+          );
+          // Subscribe to result to set auth token set
+          resultListeners.push((result) => {
+            // Validate auth token set and update tokens if valid
+            if (
+              result.data &&
+              result.data.hasOwnProperty(fieldName) &&
+              typeof result.data[fieldName] === 'object'
+            ) {
+              const tokenSet = result.data[fieldName];
+              if (this.validateAndSetAuthTokenSet(tokenSet, session)) {
+                this.instrument('onLogin', {session: session || this.getActiveSession()});
+                this.emitAuthStateChange('login', true, session);
               }
-              resolve(this.hasAccessToken() ? {
-                Authorization: `Bearer ${this.getAccessToken()}`,
-              } : {});
-            },
+            } else {
+              this.log('warn', 'login.invalidTokenSet', {operationName: operation.operationName, fieldName});
+            }
           });
-        } else {
-          // Run in next event loop so loadHeadersPromise is reset after being assigned
-          setTimeout(() => {
-            this.loadHeadersPromise = null;
-            resolve({});
-          }, 0);
         }
       });
+    }
+
+    return resultListeners;
+  }
+
+  /**
+   * Returns the headers to authenticate with the access token
+   *
+   * @param accessToken
+   */
+  protected createAuthHeaders(accessToken: string): {[name: string]: string} {
+    const {authHeaderName = DEFAULT_AUTH_HEADER_NAME, authScheme = DEFAULT_AUTH_SCHEME} = this.options;
+    return {
+      [authHeaderName]: authScheme ? `${authScheme} ${accessToken}` : accessToken,
+    };
+  }
+
+  /**
+   * Returns the access token of headers that were created with createAuthHeaders, NULL if there is none
+   *
+   * @param headers
+   */
+  protected getAccessTokenFromHeaders(headers: HeadersInit): string | null {
+    const {authHeaderName = DEFAULT_AUTH_HEADER_NAME, authScheme = DEFAULT_AUTH_SCHEME} = this.options;
+    const value = (headers as {[name: string]: string})[authHeaderName];
+    if (!value) {
+      return null;
+    }
+    return authScheme ? value.substr(authScheme.length + 1) : value;
+  }
+
+  /**
+   * Returns true if the result contains GraphQL errors caused by a missing or invalid access token
+   *
+   * @param result
+   */
+  protected isUnauthenticatedResult(result: FetchResult): boolean {
+    const authErrorCodes = this.options.authErrorCodes || DEFAULT_AUTH_ERROR_CODES;
+    return Boolean(
+      result.errors &&
+      result.errors.some((error) => Boolean(
+        error.extensions && authErrorCodes.includes(error.extensions.code),
+      )),
+    );
+  }
+
+  /**
+   * Returns true if the network error was caused by a missing or invalid access token
+   *
+   * @param error
+   */
+  protected isUnauthenticatedError(error: any): boolean {
+    return Boolean(
+      error &&
+      (error.statusCode === 401 || (error.response && error.response.status === 401)),
+    );
+  }
+
+  /**
+   * Removes the access token from the storage if it was not updated in the meantime
+   *
+   * @param accessToken
+   */
+  protected invalidateAccessToken(accessToken: string): void {
+    if (this.getAccessToken() === accessToken) {
+      this.storage.removeItem(this.getStorageKey(ACCESS_TOKEN_KEY));
+      this.setAccessTokenExpires(null);
+    }
+  }
+
+  protected getMaxAuthRetries(): number {
+    return typeof this.options.maxAuthRetries === 'number' ? this.options.maxAuthRetries : DEFAULT_MAX_AUTH_RETRIES;
+  }
+
+  /**
+   * Returns the key under which the value is stored for the session
+   *
+   * @param key
+   * @param session The name of the session, default is the active session
+   */
+  protected getStorageKey(key: string, session: string = this.getActiveSession()): string {
+    // Keys of the default session are compatible with versions without sessions
+    return session === DEFAULT_SESSION ?
+      this.namespace + key :
+      `${this.namespace}:session:${session}${key}`;
+  }
+
+  /**
+   * Returns the directive argument "session" from the @authenticate directive,
+   * undefined if the active session should be used
+   *
+   * @param directive
+   * @param variables
+   */
+  protected getDirectiveSession(directive: DirectiveNode, variables: {[name: string]: any}): string | undefined {
+    const argument = (directive.arguments || []).find((arg) => arg.name.value === 'session');
+    if (!argument) {
+      return undefined;
+    }
+    if (argument.value.kind === 'StringValue') {
+      return argument.value.value;
+    }
+    if (argument.value.kind === 'Variable' && typeof variables[argument.value.name.value] === 'string') {
+      return variables[argument.value.name.value];
+    }
+    return undefined;
+  }
+
+  /**
+   * Removes all tokens of the session from the storage
+   *
+   * @param session The name of the session, default is the active session
+   */
+  protected clearAuthTokenSet(session: string = this.getActiveSession()): void {
+    if (session === this.getActiveSession()) {
+      this.cancelScheduledRefresh();
+    }
+    TOKEN_KEYS.forEach((key) => this.storage.removeItem(this.getStorageKey(key, session)));
+    const sessions = this.getSessions();
+    if (sessions.includes(session)) {
+      this.setSessions(sessions.filter((name) => name !== session));
+    }
+  }
+
+  /**
+   * Returns the auth token set with expiration timestamps as it is stored in the storage,
+   * NULL if no access token is stored
+   *
+   * @param session The name of the session, default is the active session
+   */
+  protected getStoredAuthTokenSet(session: string = this.getActiveSession()): IStoredAuthTokenSet | null {
+    const accessToken = this.storage.getItem(this.getStorageKey(ACCESS_TOKEN_KEY, session));
+    const accessTokenExpires = this.getStoredTimestamp(ACCESS_TOKEN_EXPIRES_KEY, session);
+    const refreshToken = this.storage.getItem(this.getStorageKey(REFRESH_TOKEN_KEY, session));
+    const refreshTokenExpires = this.getStoredTimestamp(REFRESH_TOKEN_EXPIRES_KEY, session);
+    if (!accessToken || !accessTokenExpires) {
+      return null;
+    }
+    // The refresh token is missing after hydrating a snapshot without refresh token
+    const hasRefreshToken = Boolean(refreshToken && refreshTokenExpires);
+    return {
+      accessToken,
+      accessTokenExpires,
+      refreshToken: hasRefreshToken ? refreshToken : null,
+      refreshTokenExpires: hasRefreshToken ? refreshTokenExpires : null,
+    };
+  }
+
+  /**
+   * Writes the auth token set with expiration timestamps to the storage
+   *
+   * @param tokenSet
+   * @param session The name of the session, default is the active session
+   */
+  protected setStoredAuthTokenSet(tokenSet: IStoredAuthTokenSet, session: string = this.getActiveSession()): void {
+    const values: {[key: string]: string | number | null} = {
+      [ACCESS_TOKEN_KEY]: tokenSet.accessToken,
+      [ACCESS_TOKEN_EXPIRES_KEY]: tokenSet.accessTokenExpires,
+      [REFRESH_TOKEN_KEY]: tokenSet.refreshToken,
+      [REFRESH_TOKEN_EXPIRES_KEY]: tokenSet.refreshTokenExpires,
+    };
+    Object.keys(values).forEach((key) => {
+      if (values[key]) {
+        this.storage.setItem(this.getStorageKey(key, session), String(values[key]));
+      } else {
+        this.storage.removeItem(this.getStorageKey(key, session));
+      }
+    });
+    const sessions = this.getSessions();
+    if (!sessions.includes(session)) {
+      this.setSessions([...sessions, session]);
+    }
+    if (session === this.getActiveSession()) {
+      this.scheduleRefresh();
+    }
+  }
+
+  /**
+   * Returns the timestamp that is stored under the key for the session
+   *
+   * @param key
+   * @param session
+   */
+  protected getStoredTimestamp(key: string, session: string = this.getActiveSession()): number | null {
+    const timestamp = this.storage.getItem(this.getStorageKey(key, session));
+    return timestamp ? parseInt(timestamp, 10) : null;
+  }
+
+  protected setSessions(sessions: string[]): void {
+    this.storage.setItem(this.namespace + SESSIONS_KEY, JSON.stringify(sessions));
+  }
+
+  /**
+   * Applies auth state changes from other contexts
+   *
+   * @param message
+   */
+  protected handleSyncMessage(message: IAuthSyncMessage): void {
+    if (message.sourceId === this.instanceId || message.namespace !== this.namespace) {
+      return;
+    }
+    this.log('debug', 'sync.received', {type: message.type, session: message.session});
+    if (message.type === 'sessionChange') {
+      this.storage.setItem(this.namespace + ACTIVE_SESSION_KEY, message.session);
+      this.scheduleRefresh();
+    } else if (message.tokenSet) {
+      this.setStoredAuthTokenSet(message.tokenSet, message.session);
     } else {
-      this.debug('Wait for token refresh in other transaction');
+      this.clearAuthTokenSet(message.session);
+    }
+    this.emitAuthStateChange(message.type, false, message.session);
+  }
+
+  /**
+   * Notifies the auth state change listeners and other contexts
+   *
+   * @param type
+   * @param broadcast Send the change to other contexts via the sync channel
+   * @param session The name of the session that changed, default is the active session
+   */
+  protected emitAuthStateChange(
+    type: AuthStateChangeEventType,
+    broadcast: boolean = true,
+    session: string = this.getActiveSession(),
+  ): void {
+    const event = {
+      type,
+      session,
+      accessTokenExpires: this.getStoredTimestamp(ACCESS_TOKEN_EXPIRES_KEY, session),
+      refreshTokenExpires: this.getStoredTimestamp(REFRESH_TOKEN_EXPIRES_KEY, session),
+    };
+    this.authStateChangeListeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        this.log('error', 'authStateChange.listenerFailed', {type, error: error.message});
+      }
+    });
+
+    // Failed refreshes are followed by a logout that is sent to other contexts
+    if (broadcast && this.options.sync && type !== 'refreshFailed') {
+      this.options.sync.postMessage({
+        sourceId: this.instanceId,
+        namespace: this.namespace,
+        session,
+        type,
+        tokenSet: this.getStoredAuthTokenSet(session),
+      });
     }
-    return this.loadHeadersPromise;
   }
 
-  protected validateAndSetAuthTokenSet(tokenSet: any): boolean {
+  /**
+   * Returns the UNIX timestamp in milliseconds when the token expires
+   *
+   * @param token
+   * @param lifetime The lifetime of the token in seconds
+   */
+  protected getTokenExpires(token: string, lifetime?: number | null): number | null {
+    const claims = this.options.decodeJwt ? decodeJwt(token) : null;
+    if (claims && typeof claims.iat === 'number') {
+      // Token was just issued by the server
+      this.updateClockSkew(claims.iat * 1000);
+    }
+    const now = Date.now();
+    const expires = typeof lifetime === 'number' ? lifetime * 1000 + now : null;
+    if (!claims || typeof claims.exp !== 'number') {
+      return expires;
+    }
+
+    // Use time between issue and expiration if available, so a drift of the client clock is compensated
+    const tokenExpires = typeof claims.iat === 'number' ?
+      now + (claims.exp - claims.iat) * 1000 :
+      this.toClientTime(claims.exp * 1000);
+    return expires === null ? tokenExpires : Math.min(expires, tokenExpires);
+  }
+
+  /**
+   * Converts a UNIX timestamp in milliseconds of the server clock to the client clock. Expiration
+   * timestamps are stored in client time, so they can be compared with the client clock, for example
+   * by the browser for the expiration of cookies
+   *
+   * @param serverTime
+   */
+  protected toClientTime(serverTime: number): number {
+    return serverTime - this.getClockSkew();
+  }
+
+  /**
+   * Converts a UNIX timestamp in milliseconds of the client clock to the server clock
+   *
+   * @param clientTime
+   */
+  protected toServerTime(clientTime: number): number {
+    return clientTime + this.getClockSkew();
+  }
+
+  /**
+   * Returns the time in milliseconds before expiration from which tokens are treated as expired
+   */
+  protected getExpiryLeeway(): number {
+    return (this.options.expiryLeeway || 0) * 1000;
+  }
+
+  /**
+   * Updates the clock skew if it changed by more than the tolerance
+   *
+   * @param serverTime The current UNIX timestamp in milliseconds of the server clock
+   */
+  protected updateClockSkew(serverTime: number): void {
+    if (!this.options.compensateClockSkew) {
+      return;
+    }
+    const clockSkew = serverTime - Date.now();
+    if (Math.abs(clockSkew - this.getClockSkew()) > CLOCK_SKEW_TOLERANCE) {
+      this.log('info', 'clockSkew.updated', {clockSkew});
+      this.storage.setItem(this.namespace + CLOCK_SKEW_KEY, String(clockSkew));
+    }
+  }
+
+  /**
+   * Updates the clock skew from the Date header of the HTTP response
+   *
+   * @param response The response that is added to the operation context by HttpLink
+   */
+  protected updateClockSkewFromResponse(response: any): void {
+    if (!response || !response.headers || typeof response.headers.get !== 'function') {
+      return;
+    }
+    const date = response.headers.get('Date');
+    const serverTime = date ? Date.parse(date) : NaN;
+    if (!isNaN(serverTime)) {
+      this.updateClockSkew(serverTime);
+    }
+  }
+
+  /**
+   * Returns true if the lifetime is valid for the token
+   *
+   * @param token
+   * @param lifetime
+   */
+  protected isValidTokenLifetime(token: string, lifetime: any): boolean {
+    if (typeof lifetime === 'number') {
+      return true;
+    }
+    if (this.options.decodeJwt && (lifetime === null || lifetime === undefined)) {
+      const claims = decodeJwt(token);
+      if (!claims || typeof claims.exp !== 'number') {
+        this.log('warn', 'jwt.noExpiration', {decoded: Boolean(claims)});
+        return false;
+      }
+      return true;
+    }
+    return false;
+  }
+
+  protected validateAndSetAuthTokenSet(tokenSet: any, session?: string): boolean {
     if (
       tokenSet &&
       typeof tokenSet === 'object' &&
       typeof tokenSet.accessToken === 'string' &&
-      typeof tokenSet.accessTokenLifetime === 'number' &&
+      this.isValidTokenLifetime(tokenSet.accessToken, tokenSet.accessTokenLifetime) &&
       typeof tokenSet.refreshToken === 'string' &&
-      typeof tokenSet.refreshTokenLifetime === 'number'
+      this.isValidTokenLifetime(tokenSet.refreshToken, tokenSet.refreshTokenLifetime)
     ) {
       // Update auth tokens in storage of link
-      this.setAuthTokenSet(tokenSet);
-      this.debug('Login successful, auth token set updated');
+      this.setAuthTokenSet(tokenSet, session);
+      this.log('debug', 'authTokens.updated', {
+        session: session || this.getActiveSession(),
+        accessTokenExpires: this.getStoredTimestamp(ACCESS_TOKEN_EXPIRES_KEY, session),
+        refreshTokenExpires: this.getStoredTimestamp(REFRESH_TOKEN_EXPIRES_KEY, session),
+      });
       return true;
     }
 
-    this.debug('The auth token set has no valid format');
+    this.log('warn', 'authTokens.invalidFormat');
     return false;
   }
 
-  protected debug(message: string) {
-    if (this.options.debug) {
-      console.log(`[Slicknode Auth] ${message}`); // tslint:disable-line no-console
+  protected isValidAuthStateSnapshot(snapshot: any): boolean {
+    return Boolean(
+      snapshot &&
+      typeof snapshot === 'object' &&
+      snapshot.version === AUTH_STATE_VERSION &&
+      typeof snapshot.accessToken === 'string' &&
+      typeof snapshot.accessTokenExpires === 'number' &&
+      this.toClientTime(snapshot.accessTokenExpires) > Date.now() &&
+      (
+        snapshot.refreshToken === null ||
+        snapshot.refreshToken === undefined ||
+        (
+          typeof snapshot.refreshToken === 'string' &&
+          typeof snapshot.refreshTokenExpires === 'number' &&
+          this.toClientTime(snapshot.refreshTokenExpires) > Date.now()
+        )
+      ),
+    );
+  }
+
+  /**
+   * Calls the instrumentation hook, errors of the hook are logged
+   *
+   * @param hook
+   * @param event
+   */
+  protected instrument<K extends keyof IAuthInstrumentation>(
+    hook: K,
+    event: Parameters<IAuthInstrumentation[K]>[0],
+  ): void {
+    const instrumentation = this.options.instrumentation;
+    if (!instrumentation || !instrumentation[hook]) {
+      return;
+    }
+    try {
+      (instrumentation[hook] as (value: typeof event) => void).call(instrumentation, event);
+    } catch (error) {
+      this.log('error', 'instrumentation.hookFailed', {hook, error: error.message});
     }
   }
+
+  /**
+   * Passes the event to the logger, tokens in the fields are redacted
+   *
+   * @param level
+   * @param event
+   * @param fields
+   */
+  protected log(level: LogLevel, event: string, fields: ILogFields = {}): void {
+    this.logger[level](event, redactLogFields(fields));
+  }
 }
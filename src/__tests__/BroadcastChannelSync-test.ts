@@ -0,0 +1,70 @@
+import {expect} from 'chai';
+import sinon from 'sinon';
+import BroadcastChannelSync from '../sync/BroadcastChannelSync';
+import {IAuthSyncMessage} from '../types';
+
+// tslint:disable no-unused-expression
+
+const message: IAuthSyncMessage = {
+  sourceId: 'tab1',
+  namespace: 'slicknode:auth:',
+  session: 'default',
+  type: 'logout',
+  tokenSet: null,
+};
+
+describe('BroadcastChannelSync', () => {
+  let syncs: BroadcastChannelSync[];
+  beforeEach(() => {
+    syncs = [];
+  });
+  afterEach(() => {
+    syncs.forEach((sync) => sync.close());
+  });
+
+  function createSync(name: string) {
+    const sync = new BroadcastChannelSync(name);
+    syncs.push(sync);
+    return sync;
+  }
+
+  it('sends messages to other contexts with the same channel name', async () => {
+    const sender = createSync('slicknode:test');
+    const receiver = createSync('slicknode:test');
+    const other = createSync('slicknode:other');
+    const otherListener = sinon.stub();
+    other.subscribe(otherListener);
+    const received = new Promise((resolve) => receiver.subscribe(resolve));
+    sender.postMessage(message);
+    expect(await received).to.deep.equal(message);
+    expect(otherListener.called).to.be.false;
+  });
+
+  it('removes listener on unsubscribe', async () => {
+    const sender = createSync('slicknode:test');
+    const receiver = createSync('slicknode:test');
+    const listener = sinon.stub();
+    const unsubscribe = receiver.subscribe(listener);
+    unsubscribe();
+    const received = new Promise((resolve) => receiver.subscribe(resolve));
+    sender.postMessage(message);
+    await received;
+    expect(listener.called).to.be.false;
+  });
+
+  it('runs callbacks with the same lock name one at a time', async () => {
+    const sync = createSync('slicknode:test');
+    const events: string[] = [];
+    await Promise.all([
+      sync.withLock('refresh', async () => {
+        events.push('first:start');
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        events.push('first:end');
+      }),
+      sync.withLock('refresh', async () => {
+        events.push('second');
+      }),
+    ]);
+    expect(events).to.deep.equal(['first:start', 'first:end', 'second']);
+  });
+});
@@ -0,0 +1,103 @@
+import {expect} from 'chai';
+import CookieStorage from '../storage/CookieStorage';
+
+// tslint:disable no-unused-expression
+
+describe('CookieStorage', () => {
+  describe('on the server', () => {
+    it('reads values from cookie header', () => {
+      const storage = new CookieStorage({
+        cookieHeader: 'other=1; slicknode%3Aauth%3AaccessToken=token%201; invalid',
+      });
+      expect(storage.getItem('slicknode:auth:accessToken')).to.equal('token 1');
+      expect(storage.getItem('other')).to.equal('1');
+      expect(storage.getItem('missing')).to.be.null;
+    });
+
+    it('writes cookies with options', () => {
+      const cookies: string[] = [];
+      const storage = new CookieStorage({
+        cookieHeader: '',
+        setCookie: (cookie) => cookies.push(cookie),
+        path: '/app',
+        domain: 'example.com',
+        sameSite: 'Strict',
+        secure: true,
+      });
+      storage.setItem('slicknode:auth:accessToken', 'token1');
+      expect(storage.getItem('slicknode:auth:accessToken')).to.equal('token1');
+      expect(cookies).to.deep.equal([
+        'slicknode%3Aauth%3AaccessToken=token1; Path=/app; Domain=example.com; SameSite=Strict; Secure',
+      ]);
+    });
+
+    it('sets cookie expiration from stored expiration timestamp', () => {
+      const cookies: string[] = [];
+      const storage = new CookieStorage({
+        setCookie: (cookie) => cookies.push(cookie),
+      });
+      const expires = Date.UTC(2030, 0, 1);
+      storage.setItem('slicknode:auth:accessToken', 'token1');
+      storage.setItem('slicknode:auth:accessTokenExpires', String(expires));
+      expect(cookies).to.deep.equal([
+        'slicknode%3Aauth%3AaccessToken=token1; Path=/',
+        `slicknode%3Aauth%3AaccessTokenExpires=${expires}; Path=/; Expires=Tue, 01 Jan 2030 00:00:00 GMT`,
+        'slicknode%3Aauth%3AaccessToken=token1; Path=/; Expires=Tue, 01 Jan 2030 00:00:00 GMT',
+      ]);
+
+      // Uses existing expiration for updated value
+      storage.setItem('slicknode:auth:accessToken', 'token2');
+      expect(cookies[3]).to.equal('slicknode%3Aauth%3AaccessToken=token2; Path=/; Expires=Tue, 01 Jan 2030 00:00:00 GMT');
+    });
+
+    it('removes cookies', () => {
+      const cookies: string[] = [];
+      const storage = new CookieStorage({
+        cookieHeader: 'key1=value1; key2=value2',
+        setCookie: (cookie) => cookies.push(cookie),
+      });
+      storage.removeItem('key1');
+      expect(storage.getItem('key1')).to.be.null;
+      expect(cookies).to.deep.equal([
+        'key1=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT',
+      ]);
+      storage.getItem('key2');
+      storage.clear();
+      expect(storage.getItem('key2')).to.be.null;
+    });
+  });
+
+  describe('in the browser', () => {
+    let cookies: {[key: string]: string};
+    let document: {cookie: string};
+    beforeEach(() => {
+      // Simplified cookie jar of the document
+      cookies = {};
+      document = {
+        get cookie() {
+          return Object.keys(cookies).map((name) => `${name}=${cookies[name]}`).join('; ');
+        },
+        set cookie(cookie: string) {
+          const [nameValue, ...attributes] = cookie.split('; ');
+          const [name, value] = nameValue.split('=');
+          const expires = attributes.find((attribute) => attribute.startsWith('Expires='));
+          if (expires && new Date(expires.substr(8)).getTime() < Date.now()) {
+            delete cookies[name];
+          } else {
+            cookies[name] = value;
+          }
+        },
+      };
+    });
+    it('reads and writes values via document.cookie', () => {
+      const storage = new CookieStorage({document});
+      storage.setItem('slicknode:auth:refreshToken', 'token1');
+      storage.setItem('slicknode:auth:refreshTokenExpires', String(Date.now() + 10000));
+      expect(cookies['slicknode%3Aauth%3ArefreshToken']).to.equal('token1');
+      expect(storage.getItem('slicknode:auth:refreshToken')).to.equal('token1');
+      storage.removeItem('slicknode:auth:refreshToken');
+      expect(storage.getItem('slicknode:auth:refreshToken')).to.be.null;
+      expect(storage.getItem('slicknode:auth:refreshTokenExpires')).to.not.be.null;
+    });
+  });
+});
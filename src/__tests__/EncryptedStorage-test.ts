@@ -0,0 +1,88 @@
+import {expect} from 'chai';
+import EncryptedStorage from '../storage/EncryptedStorage';
+import MemoryStorage from '../storage/MemoryStorage';
+
+// tslint:disable no-unused-expression
+
+describe('EncryptedStorage', () => {
+  it('encrypts and decrypts values', async () => {
+    const memoryStorage = new MemoryStorage();
+    const storage = new EncryptedStorage({storage: memoryStorage, key: 'secret'});
+    await storage.setItem('slicknode:auth:accessToken', 'accessToken1');
+    expect(memoryStorage.getItem('slicknode:auth:accessToken')).to.be.a('string');
+    expect(memoryStorage.getItem('slicknode:auth:accessToken')).to.not.contain('accessToken1');
+    expect(await storage.getItem('slicknode:auth:accessToken')).to.equal('accessToken1');
+
+    // Can be read by other instance with same key
+    const storage2 = new EncryptedStorage({storage: memoryStorage, key: 'secret'});
+    expect(await storage2.getItem('slicknode:auth:accessToken')).to.equal('accessToken1');
+  });
+
+  it('returns NULL for missing values', async () => {
+    const storage = new EncryptedStorage({storage: new MemoryStorage(), key: 'secret'});
+    expect(await storage.getItem('missing')).to.be.null;
+  });
+
+  it('removes values', async () => {
+    const memoryStorage = new MemoryStorage();
+    const storage = new EncryptedStorage({storage: memoryStorage, key: 'secret'});
+    await storage.setItem('key1', 'value1');
+    await storage.setItem('key2', 'value2');
+    await storage.removeItem('key1');
+    expect(await storage.getItem('key1')).to.be.null;
+    expect(await storage.getItem('key2')).to.equal('value2');
+    await storage.clear();
+    expect(memoryStorage.values).to.deep.equal({});
+  });
+
+  it('reads values encrypted with previous keys and encrypts them with current key', async () => {
+    const memoryStorage = new MemoryStorage();
+    const oldStorage = new EncryptedStorage({storage: memoryStorage, key: 'oldSecret'});
+    await oldStorage.setItem('key1', 'value1');
+
+    const storage = new EncryptedStorage({
+      storage: memoryStorage,
+      key: 'newSecret',
+      previousKeys: ['oldSecret'],
+    });
+    expect(await storage.getItem('key1')).to.equal('value1');
+
+    // Value was encrypted with new key
+    expect(await oldStorage.getItem('key1')).to.be.null;
+    expect(await new EncryptedStorage({storage: memoryStorage, key: 'newSecret'}).getItem('key1'))
+      .to.equal('value1');
+  });
+
+  it('treats values encrypted with unknown key as missing', async () => {
+    const memoryStorage = new MemoryStorage();
+    await new EncryptedStorage({storage: memoryStorage, key: 'secret'}).setItem('key1', 'value1');
+    const storage = new EncryptedStorage({storage: memoryStorage, key: 'otherSecret'});
+    expect(await storage.getItem('key1')).to.be.null;
+  });
+
+  it('treats corrupted values as missing', async () => {
+    const memoryStorage = new MemoryStorage();
+    const storage = new EncryptedStorage({storage: memoryStorage, key: 'secret'});
+    await storage.setItem('key1', 'value1');
+    const [version, iv, encrypted] = memoryStorage.getItem('key1').split(':');
+
+    // Modified ciphertext
+    const tampered = encrypted.charAt(0) === 'A' ? 'B' + encrypted.substr(1) : 'A' + encrypted.substr(1);
+    memoryStorage.setItem('key1', [version, iv, tampered].join(':'));
+    expect(await storage.getItem('key1')).to.be.null;
+
+    // Invalid format
+    for (const value of ['plaintext', 'v1:invalid:base64!', 'v2:abc:def']) {
+      memoryStorage.setItem('key1', value);
+      expect(await storage.getItem('key1')).to.be.null;
+    }
+  });
+
+  it('treats values moved to other key as missing', async () => {
+    const memoryStorage = new MemoryStorage();
+    const storage = new EncryptedStorage({storage: memoryStorage, key: 'secret'});
+    await storage.setItem('key1', 'value1');
+    memoryStorage.setItem('key2', memoryStorage.getItem('key1'));
+    expect(await storage.getItem('key2')).to.be.null;
+  });
+});
@@ -0,0 +1,94 @@
+import {expect} from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sinon from 'sinon';
+import FileStorage from '../storage/FileStorage';
+
+// tslint:disable no-unused-expression
+
+describe('FileStorage', () => {
+  let dir: string;
+  let filePath: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'slicknode-file-storage-'));
+    filePath = path.join(dir, 'config', 'auth.json');
+  });
+  afterEach(() => {
+    fs.rmSync(dir, {recursive: true, force: true});
+  });
+
+  it('persists values across instances', () => {
+    const storage = new FileStorage({path: filePath});
+    expect(storage.getItem('slicknode:auth:accessToken')).to.be.null;
+    storage.setItem('slicknode:auth:accessToken', 'token1');
+    storage.setItem('slicknode:auth:refreshToken', 'refresh1');
+    storage.removeItem('slicknode:auth:refreshToken');
+
+    const otherStorage = new FileStorage({path: filePath});
+    expect(otherStorage.getItem('slicknode:auth:accessToken')).to.equal('token1');
+    expect(otherStorage.getItem('slicknode:auth:refreshToken')).to.be.null;
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).to.deep.equal({
+      'slicknode:auth:accessToken': 'token1',
+    });
+
+    otherStorage.clear();
+    expect(storage.getItem('slicknode:auth:accessToken')).to.be.null;
+  });
+
+  it('keeps changes of multiple instances', () => {
+    const storage1 = new FileStorage({path: filePath});
+    const storage2 = new FileStorage({path: filePath});
+    storage1.setItem('key1', 'value1');
+    storage2.setItem('key2', 'value2');
+    expect(storage1.getItem('key2')).to.equal('value2');
+    expect(storage2.getItem('key1')).to.equal('value1');
+  });
+
+  it('writes file only readable by owner without leaving temporary files', function() {
+    if (process.platform === 'win32') {
+      this.skip();
+    }
+    const storage = new FileStorage({path: filePath});
+    storage.setItem('key', 'value');
+    expect((fs.statSync(filePath).mode % 0o1000).toString(8)).to.equal('600');
+    expect(fs.readdirSync(path.dirname(filePath))).to.deep.equal(['auth.json']);
+  });
+
+  it('recovers from corrupt file', () => {
+    fs.mkdirSync(path.dirname(filePath), {recursive: true});
+    fs.writeFileSync(filePath, '{"key": "val');
+    const storage = new FileStorage({path: filePath});
+    expect(storage.getItem('key')).to.be.null;
+    storage.setItem('key', 'value');
+    expect(storage.getItem('key')).to.equal('value');
+  });
+
+  it('removes stale lock file', () => {
+    fs.mkdirSync(path.dirname(filePath), {recursive: true});
+    const lockPath = `${filePath}.lock`;
+    fs.writeFileSync(lockPath, '');
+    const past = new Date(Date.now() - 60000);
+    fs.utimesSync(lockPath, past, past);
+    const storage = new FileStorage({path: filePath, lockTimeout: 1000});
+    storage.setItem('key', 'value');
+    expect(storage.getItem('key')).to.equal('value');
+    expect(fs.existsSync(lockPath)).to.be.false;
+  });
+
+  it('does not remove lock file that was taken over by other process', () => {
+    const lockPath = `${filePath}.lock`;
+    const writeFileSync = fs.writeFileSync;
+    const writeStub = sinon.stub(fs, 'writeFileSync').callsFake((file, data, options) => {
+      // Other process treats the lock as stale while the values are written
+      writeFileSync(lockPath, 'otherProcess');
+      writeFileSync(file, data, options);
+    });
+    try {
+      new FileStorage({path: filePath}).setItem('key', 'value');
+    } finally {
+      writeStub.restore();
+    }
+    expect(fs.readFileSync(lockPath, 'utf8')).to.equal('otherProcess');
+  });
+});
@@ -0,0 +1,37 @@
+import {expect} from 'chai';
+import InMemoryAuthMetrics from '../instrumentation/InMemoryAuthMetrics';
+
+describe('InMemoryAuthMetrics', () => {
+  it('counts refreshes by outcome', () => {
+    const metrics = new InMemoryAuthMetrics();
+    metrics.onRefreshStart({session: 'default'});
+    metrics.onRefreshEnd({session: 'default', duration: 10, outcome: 'transient'});
+    metrics.onRefreshStart({session: 'default'});
+    metrics.onRefreshEnd({session: 'default', duration: 20, outcome: 'invalid'});
+    metrics.onRefreshStart({session: 'other'});
+    metrics.onRefreshEnd({session: 'other', duration: 30, outcome: 'success'});
+    metrics.onHeadersWait({duration: 25});
+    metrics.onLogin({session: 'other'});
+    expect(metrics.getCounters()).to.deep.equal({
+      refreshStarted: 3,
+      refreshSucceeded: 1,
+      refreshInvalid: 1,
+      refreshFailed: 0,
+      refreshTransientErrors: 1,
+      refreshTimeouts: 0,
+      refreshDurationTotal: 60,
+      headersWaits: 1,
+      headersWaitTotal: 25,
+      logins: 1,
+      logouts: 0,
+    });
+  });
+
+  it('returns a copy of the counters', () => {
+    const metrics = new InMemoryAuthMetrics();
+    const counters = metrics.getCounters();
+    metrics.onLogout({session: 'default'});
+    expect(counters.logouts).to.equal(0);
+    expect(metrics.getCounters().logouts).to.equal(1);
+  });
+});
@@ -0,0 +1,59 @@
+import {expect} from 'chai';
+import EncryptedStorage from '../storage/EncryptedStorage';
+import MemoryStorage from '../storage/MemoryStorage';
+import NodeEncryptedStorage from '../storage/NodeEncryptedStorage';
+
+// tslint:disable no-unused-expression
+
+describe('NodeEncryptedStorage', () => {
+  it('encrypts and decrypts values synchronously', () => {
+    const memoryStorage = new MemoryStorage();
+    const storage = new NodeEncryptedStorage({storage: memoryStorage, key: 'secret'});
+    storage.setItem('slicknode:auth:accessToken', 'accessToken1');
+    expect(memoryStorage.getItem('slicknode:auth:accessToken')).to.not.contain('accessToken1');
+    expect(storage.getItem('slicknode:auth:accessToken')).to.equal('accessToken1');
+    expect(storage.getItem('missing')).to.be.null;
+
+    storage.removeItem('slicknode:auth:accessToken');
+    expect(storage.getItem('slicknode:auth:accessToken')).to.be.null;
+  });
+
+  it('reads and writes the format of EncryptedStorage', async () => {
+    const memoryStorage = new MemoryStorage();
+    const storage = new NodeEncryptedStorage({storage: memoryStorage, key: 'secret'});
+    const webStorage = new EncryptedStorage({storage: memoryStorage, key: 'secret'});
+    storage.setItem('key1', 'value1');
+    expect(await webStorage.getItem('key1')).to.equal('value1');
+    await webStorage.setItem('key2', 'value2');
+    expect(storage.getItem('key2')).to.equal('value2');
+  });
+
+  it('reads values encrypted with previous keys and encrypts them with current key', () => {
+    const memoryStorage = new MemoryStorage();
+    const oldStorage = new NodeEncryptedStorage({storage: memoryStorage, key: 'oldSecret'});
+    oldStorage.setItem('key1', 'value1');
+
+    const storage = new NodeEncryptedStorage({
+      storage: memoryStorage,
+      key: 'newSecret',
+      previousKeys: ['oldSecret'],
+    });
+    expect(storage.getItem('key1')).to.equal('value1');
+    expect(oldStorage.getItem('key1')).to.be.null;
+  });
+
+  it('treats corrupted values and values moved to other key as missing', () => {
+    const memoryStorage = new MemoryStorage();
+    const storage = new NodeEncryptedStorage({storage: memoryStorage, key: 'secret'});
+    storage.setItem('key1', 'value1');
+    memoryStorage.setItem('key2', memoryStorage.getItem('key1'));
+    expect(storage.getItem('key2')).to.be.null;
+
+    const [version, iv, encrypted] = memoryStorage.getItem('key1').split(':');
+    const tampered = encrypted.charAt(0) === 'A' ? 'B' + encrypted.substr(1) : 'A' + encrypted.substr(1);
+    for (const value of [[version, iv, tampered].join(':'), 'plaintext', 'v1:invalid:base64!', 'v1::']) {
+      memoryStorage.setItem('key1', value);
+      expect(storage.getItem('key1')).to.be.null;
+    }
+  });
+});
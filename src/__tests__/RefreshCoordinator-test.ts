@@ -0,0 +1,172 @@
+import {expect} from 'chai';
+import sinon from 'sinon';
+import SlicknodeAuthError from '../errors/SlicknodeAuthError';
+import RefreshCoordinator from '../RefreshCoordinator';
+
+// tslint:disable no-unused-expression
+
+function createDeferred<T>() {
+  let resolve: (value: T) => void;
+  let reject: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return {promise, resolve, reject};
+}
+
+describe('RefreshCoordinator', () => {
+  let clock: sinon.SinonFakeTimers;
+  beforeEach(() => {
+    clock = sinon.useFakeTimers({now: 1000000});
+  });
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it('executes only one refresh at a time', async () => {
+    const coordinator = new RefreshCoordinator(1000);
+    const deferred = createDeferred<HeadersInit>();
+    const refresh = sinon.stub().returns(deferred.promise);
+    expect(coordinator.getState()).to.equal('idle');
+    expect(coordinator.start(refresh)).to.be.true;
+    expect(coordinator.start(refresh)).to.be.false;
+    expect(coordinator.getState()).to.equal('refreshing');
+    expect(refresh.calledOnce).to.be.true;
+
+    deferred.resolve({Authorization: 'Bearer token'});
+    await clock.tickAsync(0);
+    expect(coordinator.getState()).to.equal('authenticated');
+    expect(coordinator.start(refresh)).to.be.true;
+    expect(refresh.calledTwice).to.be.true;
+  });
+
+  it('settles waiters in order with the same result', async () => {
+    const coordinator = new RefreshCoordinator(1000);
+    const deferred = createDeferred<HeadersInit>();
+    coordinator.start(() => deferred.promise);
+    const settled: string[] = [];
+    const waiters = ['first', 'second', 'third'].map((name) => coordinator.wait().then((result) => {
+      settled.push(name);
+      return result;
+    }));
+    expect(coordinator.getWaiterCount()).to.equal(3);
+
+    const headers = {Authorization: 'Bearer token'};
+    deferred.resolve(headers);
+    const results = await Promise.all(waiters);
+    expect(settled).to.deep.equal(['first', 'second', 'third']);
+    results.forEach((result) => expect(result).to.equal(headers));
+    expect(coordinator.getWaiterCount()).to.equal(0);
+  });
+
+  it('rejects waiters if refresh fails', async () => {
+    const coordinator = new RefreshCoordinator(1000);
+    const error = new Error('Refresh failed');
+    coordinator.start(() => Promise.reject(error));
+    const waiter = coordinator.wait();
+    try {
+      await waiter;
+      throw new Error('Did not reject');
+    } catch (e) {
+      expect(e).to.equal(error);
+    }
+    expect(coordinator.getState()).to.equal('anonymous');
+  });
+
+  it('rejects waiters if refresh throws synchronously', async () => {
+    const coordinator = new RefreshCoordinator(1000);
+    coordinator.start(() => {
+      throw new Error('Invalid');
+    });
+    try {
+      await coordinator.wait();
+      throw new Error('Did not reject');
+    } catch (e) {
+      expect(e.message).to.equal('Invalid');
+    }
+  });
+
+  it('settles current and later waiters with released headers', async () => {
+    const coordinator = new RefreshCoordinator(1000);
+    const deferred = createDeferred<HeadersInit>();
+    let release: (headers: HeadersInit) => void;
+    coordinator.start((r) => {
+      release = r;
+      return deferred.promise;
+    });
+    const before = coordinator.wait();
+    release({});
+    expect(await before).to.deep.equal({});
+    expect(await coordinator.wait()).to.deep.equal({});
+    expect(coordinator.getState()).to.equal('refreshing');
+
+    deferred.resolve({Authorization: 'Bearer token'});
+    await clock.tickAsync(0);
+    expect(coordinator.getState()).to.equal('authenticated');
+  });
+
+  it('resolves with empty headers if no refresh is in progress', async () => {
+    const coordinator = new RefreshCoordinator(1000);
+    expect(await coordinator.wait()).to.deep.equal({});
+  });
+
+  it('rejects waiters and ignores result of refresh that timed out', async () => {
+    const onTimeout = sinon.stub();
+    const coordinator = new RefreshCoordinator(1000, onTimeout);
+    const hanging = createDeferred<HeadersInit>();
+    coordinator.start(() => hanging.promise);
+    const waiter = coordinator.wait().catch((e) => e);
+
+    await clock.tickAsync(999);
+    expect(coordinator.getState()).to.equal('refreshing');
+    await clock.tickAsync(1);
+    const error = await waiter;
+    expect(error).to.be.instanceOf(SlicknodeAuthError);
+    expect(error.code).to.equal('REFRESH_FAILED');
+    expect(onTimeout.calledOnce).to.be.true;
+    expect(coordinator.getState()).to.equal('idle');
+
+    // New refresh is not settled by the refresh that timed out
+    const next = createDeferred<HeadersInit>();
+    expect(coordinator.start(() => next.promise)).to.be.true;
+    const nextWaiter = coordinator.wait();
+    hanging.resolve({Authorization: 'Bearer old'});
+    await clock.tickAsync(0);
+    expect(coordinator.getState()).to.equal('refreshing');
+    expect(coordinator.getWaiterCount()).to.equal(1);
+    next.resolve({Authorization: 'Bearer new'});
+    expect(await nextWaiter).to.deep.equal({Authorization: 'Bearer new'});
+  });
+
+  it('cancels refresh that timed out', async () => {
+    const coordinator = new RefreshCoordinator(1000);
+    let isCancelled: () => boolean;
+    coordinator.start((release, cancelled) => {
+      isCancelled = cancelled;
+      return new Promise<HeadersInit>(() => undefined);
+    });
+    expect(isCancelled()).to.be.false;
+    await clock.tickAsync(1000);
+    expect(isCancelled()).to.be.true;
+  });
+
+  it('does not time out after refresh completed', async () => {
+    const onTimeout = sinon.stub();
+    const coordinator = new RefreshCoordinator(1000, onTimeout);
+    coordinator.start(() => Promise.resolve({}));
+    await clock.tickAsync(2000);
+    expect(onTimeout.called).to.be.false;
+    expect(coordinator.getState()).to.equal('anonymous');
+  });
+
+  it('ignores determined state during refresh', () => {
+    const coordinator = new RefreshCoordinator(1000);
+    coordinator.setState('anonymous');
+    expect(coordinator.getState()).to.equal('anonymous');
+    coordinator.start(() => new Promise(() => null));
+    coordinator.setState('authenticated');
+    expect(coordinator.getState()).to.equal('refreshing');
+    coordinator.dispose();
+  });
+});
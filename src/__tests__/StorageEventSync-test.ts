@@ -0,0 +1,159 @@
+import {expect} from 'chai';
+import sinon from 'sinon';
+import MemoryStorage from '../storage/MemoryStorage';
+import StorageEventSync from '../sync/StorageEventSync';
+import {IAuthSyncMessage} from '../types';
+
+// tslint:disable no-unused-expression
+
+const message: IAuthSyncMessage = {
+  sourceId: 'tab1',
+  namespace: 'slicknode:auth:',
+  session: 'default',
+  type: 'logout',
+  tokenSet: null,
+};
+
+describe('StorageEventSync', () => {
+  let storage: Storage;
+  beforeEach(() => {
+    storage = new MemoryStorage() as unknown as Storage;
+  });
+
+  describe('messages', () => {
+    let target: EventTarget;
+    beforeEach(() => {
+      // Storage events are dispatched on the window
+      target = new EventTarget();
+      Object.defineProperty(global, 'addEventListener', {
+        value: target.addEventListener.bind(target),
+        configurable: true,
+      });
+      Object.defineProperty(global, 'removeEventListener', {
+        value: target.removeEventListener.bind(target),
+        configurable: true,
+      });
+    });
+    afterEach(() => {
+      delete (global as any).addEventListener;
+      delete (global as any).removeEventListener;
+    });
+
+    function dispatchStorageEvent(key: string, newValue: string | null) {
+      target.dispatchEvent(Object.assign(new Event('storage'), {key, newValue}));
+    }
+
+    it('writes and removes message to trigger storage events in other tabs', () => {
+      const sync = new StorageEventSync(storage);
+      const setItem = sinon.spy(storage, 'setItem');
+      sync.postMessage(message);
+      expect(setItem.firstCall.args).to.deep.equal(['slicknode:auth:sync', JSON.stringify(message)]);
+      expect(storage.getItem('slicknode:auth:sync')).to.be.null;
+    });
+
+    it('passes messages of storage events to listener', () => {
+      const sync = new StorageEventSync(storage);
+      const listener = sinon.stub();
+      const unsubscribe = sync.subscribe(listener);
+      dispatchStorageEvent('other', JSON.stringify(message));
+      dispatchStorageEvent('slicknode:auth:sync', null);
+      dispatchStorageEvent('slicknode:auth:sync', '{"invalid');
+      dispatchStorageEvent('slicknode:auth:sync', JSON.stringify(message));
+      expect(listener.args).to.deep.equal([ [ message ] ]);
+
+      unsubscribe();
+      dispatchStorageEvent('slicknode:auth:sync', JSON.stringify(message));
+      expect(listener.calledOnce).to.be.true;
+    });
+  });
+
+  describe('lock', () => {
+    const lockKey = 'slicknode:auth:sync:lock:refresh';
+    let clock: sinon.SinonFakeTimers;
+    beforeEach(() => {
+      clock = sinon.useFakeTimers({now: 1000000});
+    });
+    afterEach(() => {
+      clock.restore();
+    });
+
+    function runWithLock(sync: StorageEventSync, events: string[], name: string, duration: number) {
+      return sync.withLock('refresh', async () => {
+        events.push(`${name}:start`);
+        await new Promise((resolve) => setTimeout(resolve, duration));
+        events.push(`${name}:end`);
+        return name;
+      });
+    }
+
+    it('runs callbacks of tabs with shared storage one at a time', async () => {
+      const events: string[] = [];
+      const results = Promise.all([
+        runWithLock(new StorageEventSync(storage), events, 'tab1', 100),
+        runWithLock(new StorageEventSync(storage), events, 'tab2', 100),
+      ]);
+      await clock.tickAsync(1000);
+      expect(await results).to.deep.equal(['tab1', 'tab2']);
+      expect(events).to.deep.equal(['tab1:start', 'tab1:end', 'tab2:start', 'tab2:end']);
+      expect(storage.getItem(lockKey)).to.be.null;
+    });
+
+    it('waits if another tab wrote the lock at the same time', async () => {
+      const events: string[] = [];
+      const result = runWithLock(new StorageEventSync(storage), events, 'tab1', 0);
+      // Other tab overwrites the lock before it is confirmed
+      storage.setItem(lockKey, JSON.stringify({owner: 'tab2', expires: Date.now() + 10000}));
+      await clock.tickAsync(5000);
+      expect(events).to.deep.equal([]);
+
+      storage.removeItem(lockKey);
+      await clock.tickAsync(100);
+      expect(await result).to.equal('tab1');
+    });
+
+    it('takes over expired lock of closed tab', async () => {
+      storage.setItem(lockKey, JSON.stringify({owner: 'closedTab', expires: Date.now() - 1}));
+      const events: string[] = [];
+      const result = runWithLock(new StorageEventSync(storage), events, 'tab1', 0);
+      await clock.tickAsync(100);
+      expect(await result).to.equal('tab1');
+    });
+
+    it('renews lock while callback is running', async () => {
+      const events: string[] = [];
+      const first = runWithLock(new StorageEventSync(storage), events, 'tab1', 25000);
+      await clock.tickAsync(100);
+      const second = runWithLock(new StorageEventSync(storage), events, 'tab2', 0);
+      await clock.tickAsync(20000);
+      expect(events).to.deep.equal(['tab1:start']);
+      await clock.tickAsync(6000);
+      await Promise.all([first, second]);
+      expect(events).to.deep.equal(['tab1:start', 'tab1:end', 'tab2:start', 'tab2:end']);
+    });
+
+    describe('with Web Locks API', () => {
+      let navigatorDescriptor: PropertyDescriptor | undefined;
+      let request: sinon.SinonStub;
+      beforeEach(() => {
+        navigatorDescriptor = Object.getOwnPropertyDescriptor(global, 'navigator');
+        request = sinon.stub().callsFake((name, callback) => callback());
+        Object.defineProperty(global, 'navigator', {value: {locks: {request}}, configurable: true});
+      });
+      afterEach(() => {
+        if (navigatorDescriptor) {
+          Object.defineProperty(global, 'navigator', navigatorDescriptor);
+        } else {
+          delete (global as any).navigator;
+        }
+      });
+
+      it('acquires lock via the Web Locks API instead of the storage', async () => {
+        const setItem = sinon.spy(storage, 'setItem');
+        const result = await new StorageEventSync(storage).withLock('refresh', async () => 'result');
+        expect(result).to.equal('result');
+        expect(request.firstCall.args[0]).to.equal('refresh');
+        expect(setItem.called).to.be.false;
+      });
+    });
+  });
+});
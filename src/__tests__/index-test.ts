@@ -1,8 +1,105 @@
-import {ApolloLink, execute, FetchResult, GraphQLRequest, Observable, gql} from '@apollo/client/core';
+import {ApolloLink, execute, FetchResult, GraphQLRequest, Observable, Operation, gql} from '@apollo/client/core';
 import {expect} from 'chai';
+import {buildSchema, GraphQLError, parse, print, validate} from 'graphql';
 import sinon from 'sinon';
-import SlicknodeLink, {REFRESH_TOKEN_MUTATION} from '../SlicknodeLink';
-import {IAuthTokenSet} from '../types';
+import AuthRequiredError from '../errors/AuthRequiredError';
+import InMemoryAuthMetrics from '../instrumentation/InMemoryAuthMetrics';
+import SlicknodeAuthError from '../errors/SlicknodeAuthError';
+import SlicknodeLink, {LOGOUT_MUTATION, REFRESH_TOKEN_MUTATION} from '../SlicknodeLink';
+import CookieStorage from '../storage/CookieStorage';
+import MemoryStorage from '../storage/MemoryStorage';
+import {IAsyncStorage, IAuthSyncChannel, IAuthSyncMessage, IAuthTokenSet} from '../types';
+
+function createJwt(claims: {[claim: string]: any}): string {
+  const encode = (value: any) => Buffer.from(JSON.stringify(value)).toString('base64')
+    .replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+  return [encode({alg: 'HS256', typ: 'JWT'}), encode(claims), 'signature'].join('.');
+}
+
+function createAsyncStorage(values: {[key: string]: string} = {}): IAsyncStorage & {values: {[key: string]: string}} {
+  return {
+    values,
+    async getItem(keyName: string) {
+      return values.hasOwnProperty(keyName) ? values[keyName] : null;
+    },
+    async setItem(keyName: string, keyValue: string) {
+      values[keyName] = keyValue;
+    },
+    async removeItem(keyName: string) {
+      delete values[keyName];
+    },
+    async clear() {
+      Object.keys(values).forEach((keyName) => delete values[keyName]);
+    },
+  };
+}
+
+const testAuthTokenSet: IAuthTokenSet = {
+  accessToken: 'accessToken1',
+  accessTokenLifetime: 20,
+  refreshToken: 'refresh1',
+  refreshTokenLifetime: 100,
+};
+
+const testRefreshedAuthTokenSet: IAuthTokenSet = {
+  ...testAuthTokenSet,
+  accessToken: 'accessToken2',
+  refreshToken: 'refresh2',
+};
+
+const expiredAuthTokenSet: IAuthTokenSet = {...testAuthTokenSet, accessTokenLifetime: -20};
+
+/**
+ * Creates a link chain with a terminating link that responds to every operation with the result of the handler.
+ * Errors thrown or rejected by the handler are emitted as network errors
+ *
+ * @param slicknodeLink
+ * @param handler
+ */
+function createLink(
+  slicknodeLink: SlicknodeLink,
+  handler: (operation: Operation) => FetchResult | Promise<FetchResult>,
+): ApolloLink {
+  return ApolloLink.from([
+    slicknodeLink,
+    new ApolloLink((operation) => new Observable<FetchResult>((observer) => {
+      new Promise<FetchResult>((resolve) => resolve(handler(operation)))
+        .then((result) => {
+          observer.next(result);
+          observer.complete();
+        })
+        .catch((error) => observer.error(error));
+    })),
+  ]);
+}
+
+/**
+ * Creates a link chain that responds to the refresh mutation with the result of the refresh handler.
+ * The headers of all other operations are passed to the request stub, which can return the result,
+ * by default they are answered with {data: {test: true}}
+ *
+ * @param slicknodeLink
+ * @param refresh
+ * @param requestStub
+ */
+function createRefreshLink(
+  slicknodeLink: SlicknodeLink,
+  refresh: (operation: Operation) => FetchResult | Promise<FetchResult>,
+  requestStub: sinon.SinonStub = sinon.stub(),
+): ApolloLink {
+  return createLink(slicknodeLink, (operation) => {
+    if (operation.query === REFRESH_TOKEN_MUTATION) {
+      return refresh(operation);
+    }
+    return requestStub(operation.getContext().headers) || {data: {test: true}};
+  });
+}
+
+function executeRequest(link: ApolloLink, request: GraphQLRequest = {query: gql`{test}`}): Promise<FetchResult> {
+  return new Promise((resolve, reject) => {
+    execute(link, request).subscribe({next: resolve, error: reject});
+  });
+}
 
 // tslint:disable no-unused-expression
 
@@ -925,6 +1022,147 @@ describe('SlicknodeLink', () => {
     });
   });
 
+  it('adds auth token set via directive in inline fragment', (done) => {
+    const data = {
+      login: testAuthTokenSet,
+    };
+    const slicknodeLink = new SlicknodeLink();
+    const nextLink = sinon.stub().callsFake(() => {
+      return new Observable<FetchResult>((observer) => {
+        observer.next({data});
+      });
+    });
+
+    const link = ApolloLink.from([
+      slicknodeLink,
+      new ApolloLink(nextLink),
+    ]);
+    const query = gql`mutation LoginMutation {
+      ... on Mutation {
+        login: loginMutation @authenticate {
+          accessToken
+          accessTokenLifetime
+          refreshToken
+          refreshTokenLifetime
+        }
+      }
+    }
+    `;
+    const request: GraphQLRequest = {
+      query,
+      variables: {},
+      operationName: 'LoginMutation',
+    };
+    const observable = execute(link, request);
+    observable.subscribe({
+      next(result: FetchResult) {
+        expect(result.data).to.equal(data);
+        expect(slicknodeLink.getAccessToken()).to.deep.equal(testAuthTokenSet.accessToken);
+        expect(slicknodeLink.getRefreshToken()).to.deep.equal(testAuthTokenSet.refreshToken);
+        // Removes directive from fragment
+        expect(JSON.stringify(nextLink.firstCall.args[0].query)).to.not.contain('authenticate');
+        done();
+      },
+      error: done,
+    });
+  });
+
+  it('adds auth token set via directive in nested fragment spreads', (done) => {
+    const data = {
+      login: testAuthTokenSet,
+    };
+    const slicknodeLink = new SlicknodeLink();
+    const listener = sinon.stub();
+    slicknodeLink.onAuthStateChange(listener);
+
+    const link = ApolloLink.from([
+      slicknodeLink,
+      new ApolloLink(() => {
+        return new Observable<FetchResult>((observer) => {
+          observer.next({data});
+        });
+      }),
+    ]);
+    const query = gql`mutation LoginMutation {
+      ...LoginFragment
+    }
+    fragment LoginFragment on Mutation {
+      ...NestedLoginFragment
+      ... on Mutation {
+        ...LoginFragment
+      }
+    }
+    fragment NestedLoginFragment on Mutation {
+      login: loginMutation @authenticate {
+        accessToken
+        accessTokenLifetime
+        refreshToken
+        refreshTokenLifetime
+      }
+      ...LoginFragment
+    }
+    `;
+    const request: GraphQLRequest = {
+      query,
+      variables: {},
+      operationName: 'LoginMutation',
+    };
+    const observable = execute(link, request);
+    observable.subscribe({
+      next(result: FetchResult) {
+        expect(result.data).to.equal(data);
+        expect(slicknodeLink.getAccessToken()).to.deep.equal(testAuthTokenSet.accessToken);
+        expect(slicknodeLink.getRefreshToken()).to.deep.equal(testAuthTokenSet.refreshToken);
+        expect(listener.calledOnce).to.be.true;
+        done();
+      },
+      error: done,
+    });
+  });
+
+  it('removes auth tokens from link on logout in fragment', (done) => {
+    const data = {
+      logout: {
+        success: true,
+      },
+    };
+    const slicknodeLink = new SlicknodeLink();
+    slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+
+    const link = ApolloLink.from([
+      slicknodeLink,
+      new ApolloLink(() => {
+        return new Observable<FetchResult>((observer) => {
+          observer.next({data});
+        });
+      }),
+    ]);
+    const query = gql`mutation LogoutMutation($token: String) {
+      ...LogoutFragment
+    }
+    fragment LogoutFragment on Mutation {
+      logout: logoutUser(input: {refreshToken: $token}) {
+        success
+      }
+    }`;
+    const request: GraphQLRequest = {
+      query,
+      variables: {
+        token: testAuthTokenSet.refreshToken,
+      },
+    };
+    const observable = execute(link, request);
+    observable.subscribe({
+      next(result: FetchResult) {
+        expect(result.data).to.equal(data);
+        expect(slicknodeLink.getAccessToken()).to.be.null;
+        expect(slicknodeLink.getRefreshToken()).to.be.null;
+        done();
+      },
+      error: done,
+    });
+  });
+
   it('removes auth tokens from link on logout', (done) => {
     const data = {
       logoutUser: {
@@ -973,6 +1211,1884 @@ describe('SlicknodeLink', () => {
     });
   });
 
+  it('loads accessToken from async storage before forwarding request', (done) => {
+    const asyncStorage = createAsyncStorage({
+      'slicknode:auth:accessToken': 'asyncAccessToken',
+      'slicknode:auth:accessTokenExpires': String(Date.now() + 20000),
+      'slicknode:auth:refreshToken': 'asyncRefreshToken',
+      'slicknode:auth:refreshTokenExpires': String(Date.now() + 100000),
+    });
+    const slicknodeLink = new SlicknodeLink({asyncStorage});
+
+    const link = ApolloLink.from([
+      slicknodeLink,
+      new ApolloLink((operation) => {
+        expect(operation.getContext()).to.deep.equal({
+          headers: {
+            Authorization: 'Bearer asyncAccessToken',
+          },
+        });
+        done();
+        return null;
+      }),
+    ]);
+    const request: GraphQLRequest = {
+      query: gql`{test}`,
+      variables: {},
+    };
+    execute(link, request).subscribe({
+      error: done,
+    });
+  });
+
+  it('writes auth token set to async storage', async () => {
+    const asyncStorage = createAsyncStorage();
+    const slicknodeLink = new SlicknodeLink({asyncStorage});
+    slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+    expect(slicknodeLink.getAccessToken()).to.equal(testAuthTokenSet.accessToken);
+    await slicknodeLink.ready();
+    expect(asyncStorage.values['slicknode:auth:accessToken']).to.equal(testAuthTokenSet.accessToken);
+    expect(asyncStorage.values['slicknode:auth:refreshToken']).to.equal(testAuthTokenSet.refreshToken);
+
+    // Token set written before load completed takes precedence over stored values
+    const slicknodeLink2 = new SlicknodeLink({asyncStorage});
+    slicknodeLink2.setAuthTokenSet({...testAuthTokenSet, accessToken: 'accessToken2'});
+    await slicknodeLink2.ready();
+    expect(slicknodeLink2.getAccessToken()).to.equal('accessToken2');
+    expect(asyncStorage.values['slicknode:auth:accessToken']).to.equal('accessToken2');
+  });
+
+  it('removes auth tokens from async storage on logout', async () => {
+    const asyncStorage = createAsyncStorage({
+      'slicknode:auth:accessToken': 'asyncAccessToken',
+      'slicknode:auth:accessTokenExpires': String(Date.now() + 20000),
+      'slicknode:auth:refreshToken': 'asyncRefreshToken',
+      'slicknode:auth:refreshTokenExpires': String(Date.now() + 100000),
+    });
+    const slicknodeLink = new SlicknodeLink({asyncStorage});
+    await slicknodeLink.ready();
+    expect(slicknodeLink.hasAccessToken()).to.be.true;
+    await slicknodeLink.logout();
+    expect(slicknodeLink.hasAccessToken()).to.be.false;
+    expect(asyncStorage.values).to.deep.equal({});
+  });
+
+  describe('background refresh', () => {
+    let clock: sinon.SinonFakeTimers;
+    beforeEach(() => {
+      clock = sinon.useFakeTimers({now: 1000000});
+    });
+    afterEach(() => {
+      clock.restore();
+    });
+
+    it('refreshes auth token set before access token expires', async () => {
+      const refreshStub = sinon.stub().returns({data: {refreshAuthToken: testRefreshedAuthTokenSet}});
+      const slicknodeLink = new SlicknodeLink({refreshBeforeExpiry: 5});
+      const link = createRefreshLink(slicknodeLink, refreshStub);
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      await executeRequest(link);
+
+      await clock.tickAsync(14000);
+      expect(refreshStub.called).to.be.false;
+      await clock.tickAsync(1000);
+      expect(refreshStub.calledOnce).to.be.true;
+      expect(refreshStub.firstCall.args[0].variables).to.deep.equal({token: 'refresh1'});
+      expect(slicknodeLink.getAccessToken()).to.equal('accessToken2');
+
+      // Reschedules refresh for new token set
+      await clock.tickAsync(15000);
+      expect(refreshStub.calledTwice).to.be.true;
+      expect(refreshStub.secondCall.args[0].variables).to.deep.equal({token: 'refresh2'});
+      slicknodeLink.dispose();
+    });
+
+    it('refreshes halfway through access token lifetime shorter than refreshBeforeExpiry', async () => {
+      const refreshStub = sinon.stub().returns({data: {refreshAuthToken: testRefreshedAuthTokenSet}});
+      const slicknodeLink = new SlicknodeLink({refreshBeforeExpiry: 60});
+      const link = createRefreshLink(slicknodeLink, refreshStub);
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      await executeRequest(link);
+
+      await clock.tickAsync(9999);
+      expect(refreshStub.called).to.be.false;
+      await clock.tickAsync(1);
+      expect(refreshStub.calledOnce).to.be.true;
+
+      // Refreshed token set is not refreshed again immediately
+      await clock.tickAsync(9999);
+      expect(refreshStub.calledOnce).to.be.true;
+      await clock.tickAsync(1);
+      expect(refreshStub.calledTwice).to.be.true;
+      slicknodeLink.dispose();
+    });
+
+    it('refreshes in background before expiry leeway starts', async () => {
+      const refreshStub = sinon.stub().returns({data: {refreshAuthToken: testRefreshedAuthTokenSet}});
+      const slicknodeLink = new SlicknodeLink({refreshBeforeExpiry: 5, expiryLeeway: 10});
+      const link = createRefreshLink(slicknodeLink, refreshStub);
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      await executeRequest(link);
+
+      await clock.tickAsync(4999);
+      expect(refreshStub.called).to.be.false;
+      await clock.tickAsync(1);
+      expect(refreshStub.calledOnce).to.be.true;
+      expect(refreshStub.firstCall.args[0].variables).to.deep.equal({token: 'refresh1'});
+      slicknodeLink.dispose();
+    });
+
+    it('does not refresh in background without option', async () => {
+      const refreshStub = sinon.stub().returns({data: {refreshAuthToken: testRefreshedAuthTokenSet}});
+      const slicknodeLink = new SlicknodeLink();
+      const link = createRefreshLink(slicknodeLink, refreshStub);
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      await executeRequest(link);
+
+      await clock.tickAsync(30000);
+      expect(refreshStub.called).to.be.false;
+    });
+
+    it('refreshes in background via refreshLink before any request was executed', async () => {
+      const refreshStub = sinon.stub();
+      const slicknodeLink = new SlicknodeLink({
+        refreshBeforeExpiry: 5,
+        refreshLink: new ApolloLink((operation) => {
+          refreshStub(operation);
+          return Observable.of({data: {refreshAuthToken: testRefreshedAuthTokenSet}});
+        }),
+      });
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+
+      await clock.tickAsync(15000);
+      expect(refreshStub.calledOnce).to.be.true;
+      expect(refreshStub.firstCall.args[0].variables).to.deep.equal({token: 'refresh1'});
+      expect(slicknodeLink.getAccessToken()).to.equal('accessToken2');
+      slicknodeLink.dispose();
+    });
+
+    it('cancels background refresh on logout', async () => {
+      const refreshStub = sinon.stub().returns({data: {refreshAuthToken: testRefreshedAuthTokenSet}});
+      const slicknodeLink = new SlicknodeLink({refreshBeforeExpiry: 5});
+      const link = createRefreshLink(slicknodeLink, refreshStub);
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      await executeRequest(link);
+      await slicknodeLink.logout();
+
+      await clock.tickAsync(30000);
+      expect(refreshStub.called).to.be.false;
+    });
+
+    it('cancels background refresh when link is disposed', async () => {
+      const refreshStub = sinon.stub().returns({data: {refreshAuthToken: testRefreshedAuthTokenSet}});
+      const slicknodeLink = new SlicknodeLink({refreshBeforeExpiry: 5});
+      const link = createRefreshLink(slicknodeLink, refreshStub);
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      await executeRequest(link);
+      slicknodeLink.dispose();
+
+      await clock.tickAsync(30000);
+      expect(refreshStub.called).to.be.false;
+      expect(slicknodeLink.getAccessToken()).to.be.null;
+    });
+  });
+
+  it('does not keep the process alive for background refresh', () => {
+    const slicknodeLink = new SlicknodeLink({refreshBeforeExpiry: 5});
+    slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+    expect((slicknodeLink as any).refreshTimer.hasRef()).to.be.false;
+    slicknodeLink.dispose();
+  });
+
+  describe('replay after UNAUTHENTICATED response', () => {
+    const unauthenticatedResult: FetchResult = {
+      data: null,
+      errors: [new GraphQLError('Invalid token', null, null, null, null, null, {code: 'UNAUTHENTICATED'})],
+    };
+
+    const refreshedResult: FetchResult = {data: {refreshAuthToken: testRefreshedAuthTokenSet}};
+
+    it('refreshes tokens and replays operation after GraphQL auth error', (done) => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      const refreshStub = sinon.stub().returns(refreshedResult);
+      const requestStub = sinon.stub().callsFake((headers) => {
+        return headers.Authorization === 'Bearer accessToken2' ? {data: {test: true}} : unauthenticatedResult;
+      });
+      const link = createRefreshLink(slicknodeLink, refreshStub, requestStub);
+      const nextStub = sinon.stub();
+      execute(link, {query: gql`{test}`, variables: {}}).subscribe({
+        next: nextStub,
+        complete() {
+          expect(nextStub.calledOnceWith({data: {test: true}})).to.be.true;
+          expect(refreshStub.calledOnce).to.be.true;
+          expect(refreshStub.firstCall.args[0].variables).to.deep.equal({token: 'refresh1'});
+          expect(requestStub.calledTwice).to.be.true;
+          expect(requestStub.firstCall.args[0]).to.deep.equal({Authorization: 'Bearer accessToken1'});
+          expect(slicknodeLink.getAccessToken()).to.equal('accessToken2');
+          done();
+        },
+        error: done,
+      });
+    });
+
+    it('only invalidates the access token that was sent', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      // Login stores new tokens after the auth headers of the operation were loaded
+      const getAuthHeaders = sinon.stub(slicknodeLink, 'getAuthHeaders')
+        .resolves({Authorization: 'Bearer accessToken1'});
+      getAuthHeaders.onFirstCall().callsFake(async () => {
+        slicknodeLink.setAuthTokenSet(testRefreshedAuthTokenSet);
+        return {Authorization: 'Bearer accessToken1'};
+      });
+      const link = createRefreshLink(slicknodeLink, () => refreshedResult, sinon.stub().returns(unauthenticatedResult));
+      const result = await executeRequest(link);
+      expect(result).to.equal(unauthenticatedResult);
+      expect(slicknodeLink.getAccessToken()).to.equal('accessToken2');
+    });
+
+    it('refreshes tokens and replays operation after HTTP 401 error', (done) => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      const requestStub = sinon.stub().callsFake((headers) => {
+        if (headers.Authorization !== 'Bearer accessToken2') {
+          throw Object.assign(new Error('Unauthorized'), {statusCode: 401});
+        }
+        return {data: {test: true}};
+      });
+      const link = createRefreshLink(slicknodeLink, () => refreshedResult, requestStub);
+      execute(link, {query: gql`{test}`, variables: {}}).subscribe({
+        next(result) {
+          expect(result).to.deep.equal({data: {test: true}});
+          expect(requestStub.calledTwice).to.be.true;
+          done();
+        },
+        error: done,
+      });
+    });
+
+    it('stops replaying operation after max retries', (done) => {
+      const slicknodeLink = new SlicknodeLink({maxAuthRetries: 2});
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      const requestStub = sinon.stub().returns(unauthenticatedResult);
+      const refreshStub = sinon.stub().returns(refreshedResult);
+      const link = createRefreshLink(slicknodeLink, refreshStub, requestStub);
+      execute(link, {query: gql`{test}`, variables: {}}).subscribe({
+        next(result) {
+          expect(result).to.deep.equal(unauthenticatedResult);
+          expect(requestStub.calledThrice).to.be.true;
+          expect(refreshStub.calledTwice).to.be.true;
+          done();
+        },
+        error: done,
+      });
+    });
+
+    it('does not replay anonymous operations', (done) => {
+      const slicknodeLink = new SlicknodeLink();
+      const requestStub = sinon.stub().returns(unauthenticatedResult);
+      const link = createRefreshLink(slicknodeLink, () => refreshedResult, requestStub);
+      execute(link, {query: gql`{test}`, variables: {}}).subscribe({
+        next(result) {
+          expect(result).to.deep.equal(unauthenticatedResult);
+          expect(requestStub.calledOnce).to.be.true;
+          done();
+        },
+        error: done,
+      });
+    });
+
+    it('passes errors through if no refresh token is available', (done) => {
+      const slicknodeLink = new SlicknodeLink({accessToken: 'permanentToken'});
+      const requestStub = sinon.stub().throws(Object.assign(new Error('Unauthorized'), {statusCode: 401}));
+      const link = createRefreshLink(slicknodeLink, () => refreshedResult, requestStub);
+      execute(link, {query: gql`{test}`, variables: {}}).subscribe({
+        error(error) {
+          expect(error.statusCode).to.equal(401);
+          expect(requestStub.calledOnce).to.be.true;
+          done();
+        },
+      });
+    });
+  });
+
+  describe('auth state change events', () => {
+    it('emits login event for mutation with authenticate directive', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      const listener = sinon.stub();
+      slicknodeLink.onAuthStateChange(listener);
+      const link = createLink(slicknodeLink, () => ({data: {loginMutation: testAuthTokenSet}}));
+      await executeRequest(link, {
+        query: gql`mutation {
+          loginMutation @authenticate {
+            accessToken
+            accessTokenLifetime
+            refreshToken
+            refreshTokenLifetime
+          }
+        }`,
+      });
+      expect(listener.calledOnce).to.be.true;
+      expect(listener.firstCall.args[0]).to.deep.equal({
+        type: 'login',
+        session: 'default',
+        accessTokenExpires: slicknodeLink.getAccessTokenExpires(),
+        refreshTokenExpires: slicknodeLink.getRefreshTokenExpires(),
+      });
+    });
+
+    it('emits refresh event when auth token set is refreshed', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const listener = sinon.stub();
+      slicknodeLink.onAuthStateChange(listener);
+      const link = createRefreshLink(slicknodeLink, () => ({
+        data: {refreshAuthToken: {...testAuthTokenSet, accessToken: 'accessToken2'}},
+      }));
+      await executeRequest(link);
+      expect(listener.calledOnce).to.be.true;
+      expect(listener.firstCall.args[0].type).to.equal('refresh');
+      expect(listener.firstCall.args[0].accessTokenExpires).to.equal(slicknodeLink.getAccessTokenExpires());
+    });
+
+    it('emits refreshFailed and logout events when refresh fails', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const listener = sinon.stub();
+      slicknodeLink.onAuthStateChange(listener);
+      const link = createRefreshLink(slicknodeLink, () => ({data: {refreshAuthToken: null}}));
+      await executeRequest(link);
+      expect(listener.args.map((args) => args[0].type)).to.deep.equal(['refreshFailed', 'logout']);
+      expect(listener.secondCall.args[0].accessTokenExpires).to.be.null;
+    });
+
+    it('emits logout event for logoutUser mutation', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      const listener = sinon.stub();
+      slicknodeLink.onAuthStateChange(listener);
+      const link = createLink(slicknodeLink, () => ({data: {logoutUser: {success: true}}}));
+      await executeRequest(link, {
+        query: gql`mutation {
+          logoutUser(input: {}) {
+            success
+          }
+        }`,
+      });
+      expect(listener.calledOnce).to.be.true;
+      expect(listener.firstCall.args[0]).to.deep.equal({
+        type: 'logout',
+        session: 'default',
+        accessTokenExpires: null,
+        refreshTokenExpires: null,
+      });
+    });
+
+    it('emits expired event when auth token set expired', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet({...testAuthTokenSet, accessTokenLifetime: -20, refreshTokenLifetime: -10});
+      const listener = sinon.stub();
+      slicknodeLink.onAuthStateChange(listener);
+      const link = createLink(slicknodeLink, () => ({data: {test: true}}));
+      await executeRequest(link);
+      await executeRequest(link);
+      expect(listener.calledOnce).to.be.true;
+      expect(listener.firstCall.args[0].type).to.equal('expired');
+    });
+
+    it('removes listener on unsubscribe', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      const listener = sinon.stub();
+      const unsubscribe = slicknodeLink.onAuthStateChange(listener);
+      unsubscribe();
+      await slicknodeLink.logout();
+      expect(listener.called).to.be.false;
+    });
+  });
+
+  describe('sync across contexts', () => {
+    function createSyncChannel(): IAuthSyncChannel & {messages: IAuthSyncMessage[]} {
+      let listeners: ((message: IAuthSyncMessage) => void)[] = [];
+      let lock = Promise.resolve();
+      const messages: IAuthSyncMessage[] = [];
+      return {
+        messages,
+        postMessage(message) {
+          messages.push(message);
+          listeners.forEach((listener) => listener(message));
+        },
+        subscribe(listener) {
+          listeners.push(listener);
+          return () => {
+            listeners = listeners.filter((l) => l !== listener);
+          };
+        },
+        withLock(name, callback) {
+          const result = lock.then(callback);
+          lock = result.then(() => null, () => null);
+          return result;
+        },
+      };
+    }
+
+    it('shares new auth token set with other contexts', (done) => {
+      const sync = createSyncChannel();
+      const slicknodeLink1 = new SlicknodeLink({sync});
+      const slicknodeLink2 = new SlicknodeLink({sync});
+      const listener = sinon.stub();
+      slicknodeLink2.onAuthStateChange(listener);
+
+      const link = createLink(slicknodeLink1, () => ({data: {loginMutation: testAuthTokenSet}}));
+      const query = gql`mutation {
+        loginMutation @authenticate {
+          accessToken
+          accessTokenLifetime
+          refreshToken
+          refreshTokenLifetime
+        }
+      }`;
+      execute(link, {query}).subscribe({
+        next() {
+          expect(slicknodeLink2.getAccessToken()).to.equal(testAuthTokenSet.accessToken);
+          expect(slicknodeLink2.getRefreshToken()).to.equal(testAuthTokenSet.refreshToken);
+          expect(slicknodeLink2.getAccessTokenExpires()).to.equal(slicknodeLink1.getAccessTokenExpires());
+          expect(listener.calledOnce).to.be.true;
+          expect(listener.firstCall.args[0].type).to.equal('login');
+          expect(sync.messages.length).to.equal(1);
+          done();
+        },
+        error: done,
+      });
+    });
+
+    it('shares hydrated auth state without refresh token with other contexts', () => {
+      const sync = createSyncChannel();
+      const slicknodeLink1 = new SlicknodeLink({sync, storage: new MemoryStorage()});
+      const slicknodeLink2 = new SlicknodeLink({sync, storage: new MemoryStorage()});
+      slicknodeLink1.setAuthTokenSet({...testAuthTokenSet, accessToken: 'oldAccessToken'});
+      slicknodeLink2.setAuthTokenSet({...testAuthTokenSet, accessToken: 'oldAccessToken'});
+      const listener = sinon.stub();
+      slicknodeLink2.onAuthStateChange(listener);
+
+      expect(slicknodeLink1.hydrateAuthState({
+        version: 1,
+        accessToken: 'accessToken1',
+        accessTokenExpires: Date.now() + 20000,
+        refreshToken: null,
+        refreshTokenExpires: null,
+      })).to.be.true;
+      expect(sync.messages[sync.messages.length - 1].tokenSet.refreshToken).to.be.null;
+      expect(slicknodeLink2.getAccessToken()).to.equal('accessToken1');
+      expect(slicknodeLink2.getAccessTokenExpires()).to.equal(slicknodeLink1.getAccessTokenExpires());
+      // All contexts remove the refresh token that might belong to another user
+      expect(slicknodeLink1.getRefreshToken()).to.be.null;
+      expect(slicknodeLink2.getRefreshToken()).to.be.null;
+      expect(listener.calledOnce).to.be.true;
+      expect(listener.firstCall.args[0].type).to.equal('login');
+    });
+
+    it('shares logout with other contexts', async () => {
+      const sync = createSyncChannel();
+      const slicknodeLink1 = new SlicknodeLink({sync});
+      const slicknodeLink2 = new SlicknodeLink({sync});
+      slicknodeLink1.setAuthTokenSet(testAuthTokenSet);
+      slicknodeLink2.setAuthTokenSet(testAuthTokenSet);
+      await slicknodeLink1.logout();
+      expect(slicknodeLink2.hasAccessToken()).to.be.false;
+      expect(slicknodeLink2.hasRefreshToken()).to.be.false;
+    });
+
+    it('ignores messages from other namespaces', async () => {
+      const sync = createSyncChannel();
+      const slicknodeLink1 = new SlicknodeLink({sync, namespace: 'other'});
+      const slicknodeLink2 = new SlicknodeLink({sync});
+      slicknodeLink2.setAuthTokenSet(testAuthTokenSet);
+      await slicknodeLink1.logout();
+      expect(slicknodeLink2.hasAccessToken()).to.be.true;
+    });
+
+    it('refreshes tokens only once across contexts with shared storage', (done) => {
+      const sync = createSyncChannel();
+      const storage = new MemoryStorage();
+      const slicknodeLink1 = new SlicknodeLink({sync, storage});
+      const slicknodeLink2 = new SlicknodeLink({sync, storage});
+      slicknodeLink1.setAuthTokenSet(expiredAuthTokenSet);
+
+      const refreshStub = sinon.stub().callsFake(() => new Promise<FetchResult>((resolve) => setTimeout(() => resolve({
+        data: {refreshAuthToken: testRefreshedAuthTokenSet},
+      }), 0)));
+      const requestStub = sinon.stub().callsFake((headers) => ({data: {accessToken: headers.Authorization}}));
+
+      const request = {query: gql`{accessToken}`};
+      Promise.all([slicknodeLink1, slicknodeLink2].map((slicknodeLink) => {
+        return executeRequest(createRefreshLink(slicknodeLink, refreshStub, requestStub), request);
+      }))
+        .then((results) => {
+          expect(refreshStub.calledOnce).to.be.true;
+          expect(results.map((result) => result.data.accessToken)).to.deep.equal([
+            'Bearer accessToken2',
+            'Bearer accessToken2',
+          ]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it('stops sync when link is disposed', async () => {
+      const sync = createSyncChannel();
+      const slicknodeLink1 = new SlicknodeLink({sync});
+      const slicknodeLink2 = new SlicknodeLink({sync});
+      slicknodeLink2.setAuthTokenSet(testAuthTokenSet);
+      slicknodeLink2.dispose();
+      await slicknodeLink1.logout();
+      expect(slicknodeLink2.hasAccessToken()).to.be.true;
+    });
+  });
+
+  describe('JWT access tokens', () => {
+    it('uses expiration of JWT if no lifetime is returned', () => {
+      const now = Math.floor(Date.now() / 1000);
+      const slicknodeLink = new SlicknodeLink({decodeJwt: true});
+      // Client clock is 1 hour ahead of server clock
+      const accessToken = createJwt({sub: '123', iat: now - 3600, exp: now - 3600 + 20});
+      const refreshToken = createJwt({iat: now - 3600, exp: now - 3600 + 100});
+      const result = (slicknodeLink as any).validateAndSetAuthTokenSet({accessToken, refreshToken});
+      expect(result).to.be.true;
+      expect(slicknodeLink.getAccessToken()).to.equal(accessToken);
+      expect(slicknodeLink.getAccessTokenExpires()).to.be.within(Date.now() + 19000, Date.now() + 20000);
+      expect(slicknodeLink.getRefreshTokenExpires()).to.be.within(Date.now() + 99000, Date.now() + 100000);
+    });
+
+    it('uses expiration of JWT if it expires before lifetime', () => {
+      const now = Math.floor(Date.now() / 1000);
+      const slicknodeLink = new SlicknodeLink({decodeJwt: true});
+      slicknodeLink.setAuthTokenSet({
+        accessToken: createJwt({exp: now + 10}),
+        accessTokenLifetime: 20,
+        refreshToken: 'refresh1',
+        refreshTokenLifetime: 100,
+      });
+      expect(slicknodeLink.getAccessTokenExpires()).to.be.within(now * 1000 + 9000, now * 1000 + 10000);
+      expect(slicknodeLink.getRefreshTokenExpires()).to.be.within(Date.now() + 99000, Date.now() + 100000);
+    });
+
+    it('ignores missing lifetime if JWT decoding is disabled', () => {
+      const now = Math.floor(Date.now() / 1000);
+      const slicknodeLink = new SlicknodeLink();
+      const result = (slicknodeLink as any).validateAndSetAuthTokenSet({
+        accessToken: createJwt({exp: now + 20}),
+        refreshToken: createJwt({exp: now + 100}),
+      });
+      expect(result).to.be.false;
+      expect(slicknodeLink.hasAccessToken()).to.be.false;
+    });
+
+    it('ignores missing lifetime for tokens without expiration', () => {
+      const logger = {debug: sinon.stub(), info: sinon.stub(), warn: sinon.stub(), error: sinon.stub()};
+      const slicknodeLink = new SlicknodeLink({decodeJwt: true, logger});
+      const result = (slicknodeLink as any).validateAndSetAuthTokenSet({
+        accessToken: 'opaqueToken',
+        refreshToken: createJwt({sub: '123'}),
+      });
+      expect(result).to.be.false;
+      expect(logger.warn.calledWith('jwt.noExpiration', {decoded: false})).to.be.true;
+    });
+
+    it('returns claims of access token', () => {
+      const claims = {
+        sub: '123',
+        roles: ['ADMIN'],
+        name: 'Jürgen',
+        exp: Math.floor(Date.now() / 1000) + 20,
+      };
+      const slicknodeLink = new SlicknodeLink();
+      expect(slicknodeLink.getAccessTokenClaims()).to.be.null;
+      slicknodeLink.setAuthTokenSet({
+        accessToken: createJwt(claims),
+        accessTokenLifetime: 20,
+        refreshToken: 'refresh1',
+        refreshTokenLifetime: 100,
+      });
+      expect(slicknodeLink.getAccessTokenClaims()).to.deep.equal(claims);
+    });
+
+    it('returns NULL claims for non JWT access token', () => {
+      const slicknodeLink = new SlicknodeLink({accessToken: 'abc.def.ghi'});
+      expect(slicknodeLink.getAccessTokenClaims()).to.be.null;
+    });
+  });
+
+  describe('custom auth protocol', () => {
+    it('refreshes tokens with custom refresh mutation', (done) => {
+      const refreshMutation = gql`mutation renewSession($input: RenewInput!) {
+        auth {
+          renewSession(input: $input) {
+            accessToken
+            refreshToken
+            accessTokenLifetime
+            refreshTokenLifetime
+          }
+        }
+      }`;
+      const slicknodeLink = new SlicknodeLink({
+        refreshMutation,
+        getRefreshVariables: (refreshToken) => ({input: {token: refreshToken}}),
+        getRefreshResult: (data) => data.auth.renewSession,
+      });
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+
+      const link = createLink(slicknodeLink, (operation) => {
+        if (operation.query === refreshMutation) {
+          expect(operation.variables).to.deep.equal({input: {token: 'refresh1'}});
+          return {data: {auth: {renewSession: testRefreshedAuthTokenSet}}};
+        }
+        return {data: {headers: operation.getContext().headers}};
+      });
+      execute(link, {query: gql`{test}`}).subscribe({
+        next(result) {
+          expect(result.data.headers).to.deep.equal({
+            Authorization: 'Bearer accessToken2',
+          });
+          expect(slicknodeLink.getRefreshToken()).to.equal('refresh2');
+          done();
+        },
+        error: done,
+      });
+    });
+
+    it('uses custom auth header name and scheme', (done) => {
+      const slicknodeLink = new SlicknodeLink({
+        accessToken: 'abc123',
+        authHeaderName: 'X-Auth-Token',
+        authScheme: '',
+      });
+      const link = ApolloLink.from([
+        slicknodeLink,
+        new ApolloLink((operation) => {
+          expect(operation.getContext()).to.deep.equal({
+            headers: {
+              'X-Auth-Token': 'abc123',
+            },
+          });
+          done();
+          return null;
+        }),
+      ]);
+      execute(link, {query: gql`{test}`}).subscribe({
+        error: done,
+      });
+    });
+
+    it('removes auth tokens for custom logout field', (done) => {
+      const slicknodeLink = new SlicknodeLink({
+        logoutFields: ['signOut'],
+      });
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+
+      const link = createLink(slicknodeLink, () => ({data: {logoutUser: true, signOut: true}}));
+      const request = {
+        query: gql`mutation {
+          logoutUser
+        }`,
+      };
+      execute(link, request).subscribe({
+        next() {
+          // Default field is ignored
+          expect(slicknodeLink.hasAccessToken()).to.be.true;
+          execute(link, {query: gql`mutation {signOut}`}).subscribe({
+            next() {
+              expect(slicknodeLink.hasAccessToken()).to.be.false;
+              done();
+            },
+            error: done,
+          });
+        },
+        error: done,
+      });
+    });
+  });
+
+  describe('clock skew', () => {
+    function createServerTimeLink(slicknodeLink: SlicknodeLink, serverTime: number) {
+      return createLink(slicknodeLink, (operation) => {
+        operation.setContext({
+          response: {
+            headers: new Map([['Date', new Date(serverTime).toUTCString()]]),
+          },
+        });
+        return {data: {loginMutation: testAuthTokenSet}};
+      });
+    }
+
+    const loginMutation = gql`mutation {
+      loginMutation @authenticate {
+        accessToken
+        accessTokenLifetime
+        refreshToken
+        refreshTokenLifetime
+      }
+    }`;
+
+    it('determines clock skew from Date header', (done) => {
+      const slicknodeLink = new SlicknodeLink({compensateClockSkew: true});
+      // Server clock is 1 hour ahead, the Date header has a precision of seconds
+      const link = createServerTimeLink(slicknodeLink, Math.ceil(Date.now() / 1000) * 1000 + 3600000);
+      execute(link, {query: loginMutation}).subscribe({
+        next() {
+          expect(slicknodeLink.getClockSkew()).to.be.within(3599000, 3601000);
+          // Expiration timestamps are stored in client time
+          expect(slicknodeLink.getAccessTokenExpires()).to.be.within(Date.now() + 19000, Date.now() + 20000);
+          expect(slicknodeLink.hasAccessToken()).to.be.true;
+          done();
+        },
+        error: done,
+      });
+    });
+
+    it('ignores Date header without clock skew compensation', (done) => {
+      const slicknodeLink = new SlicknodeLink();
+      const link = createServerTimeLink(slicknodeLink, Date.now() + 3600000);
+      execute(link, {query: loginMutation}).subscribe({
+        next() {
+          expect(slicknodeLink.getClockSkew()).to.equal(0);
+          expect(slicknodeLink.hasAccessToken()).to.be.true;
+          done();
+        },
+        error: done,
+      });
+    });
+
+    it('determines clock skew from iat claim of JWT', () => {
+      const slicknodeLink = new SlicknodeLink({compensateClockSkew: true, decodeJwt: true});
+      // Server clock is 1 hour behind
+      const iat = Math.ceil(Date.now() / 1000) - 3600;
+      const accessToken = createJwt({iat, exp: iat + 20});
+      slicknodeLink.setAuthTokenSet({...testAuthTokenSet, accessToken, accessTokenLifetime: null});
+      expect(slicknodeLink.getClockSkew()).to.be.within(-3601000, -3599000);
+      expect(slicknodeLink.getAccessTokenExpires()).to.be.within(Date.now() + 19000, Date.now() + 20000);
+      expect(slicknodeLink.getAccessToken()).to.equal(accessToken);
+    });
+
+    it('converts expiration of JWT without iat claim to client time', (done) => {
+      const slicknodeLink = new SlicknodeLink({compensateClockSkew: true, decodeJwt: true});
+      // Client clock is 10 minutes ahead of the server clock
+      const serverTime = Math.ceil(Date.now() / 1000) * 1000 - 600000;
+      const accessToken = createJwt({exp: serverTime / 1000 + 300});
+      const link = createLink(slicknodeLink, (operation) => {
+        operation.setContext({response: {headers: new Map([['Date', new Date(serverTime).toUTCString()]])}});
+        return {data: {loginMutation: {...testAuthTokenSet, accessToken, accessTokenLifetime: null}}};
+      });
+      execute(link, {query: loginMutation}).subscribe({
+        next() {
+          expect(slicknodeLink.getAccessTokenExpires()).to.be.within(Date.now() + 299000, Date.now() + 301000);
+          expect(slicknodeLink.getAccessToken()).to.equal(accessToken);
+          done();
+        },
+        error: done,
+      });
+    });
+
+    it('stores expiration in client time if client clock is ahead', (done) => {
+      const cookies: string[] = [];
+      const slicknodeLink = new SlicknodeLink({
+        compensateClockSkew: true,
+        storage: new CookieStorage({setCookie: (cookie) => cookies.push(cookie)}),
+      });
+      // Client clock is 10 minutes ahead of the server clock
+      const link = createServerTimeLink(slicknodeLink, Math.ceil(Date.now() / 1000) * 1000 - 600000);
+      execute(link, {query: loginMutation}).subscribe({
+        next() {
+          expect(slicknodeLink.getClockSkew()).to.be.within(-601000, -599000);
+          // Cookie is not expired for the browser
+          const accessTokenCookies = cookies.filter((cookie) => cookie.startsWith('slicknode%3Aauth%3AaccessToken='));
+          const expires = accessTokenCookies[accessTokenCookies.length - 1].match(/Expires=([^;]+)/)[1];
+          expect(Date.parse(expires)).to.be.above(Date.now());
+          expect(slicknodeLink.hasAccessToken()).to.be.true;
+          done();
+        },
+        error: done,
+      });
+    });
+
+    it('treats tokens as expired within leeway', () => {
+      const slicknodeLink = new SlicknodeLink({expiryLeeway: 30});
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      expect(slicknodeLink.hasAccessToken()).to.be.false;
+      expect(slicknodeLink.hasRefreshToken()).to.be.true;
+
+      const slicknodeLink2 = new SlicknodeLink({expiryLeeway: 10});
+      slicknodeLink2.setAuthTokenSet(testAuthTokenSet);
+      expect(slicknodeLink2.hasAccessToken()).to.be.true;
+    });
+  });
+
+  describe('logout on server', () => {
+    function createLogoutLink(slicknodeLink: SlicknodeLink, handleLogout: (operation: Operation) => FetchResult) {
+      return createLink(slicknodeLink, (operation) => {
+        return operation.query === LOGOUT_MUTATION ? handleLogout(operation) : {data: {test: true}};
+      });
+    }
+
+    it('sends logout mutation with refresh token and removes tokens', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      const logoutStub = sinon.stub().returns({data: {logoutUser: {success: true}}});
+      await executeRequest(createLogoutLink(slicknodeLink, logoutStub));
+
+      const result = await slicknodeLink.logoutFromServer();
+      expect(result).to.deep.equal({
+        success: true,
+        result: {data: {logoutUser: {success: true}}},
+        error: null,
+      });
+      expect(logoutStub.calledOnce).to.be.true;
+      const operation = logoutStub.firstCall.args[0];
+      expect(operation.variables).to.deep.equal({refreshToken: 'refresh1'});
+      expect(operation.getContext().headers).to.deep.equal({Authorization: 'Bearer accessToken1'});
+      expect(slicknodeLink.hasAccessToken()).to.be.false;
+      expect(slicknodeLink.hasRefreshToken()).to.be.false;
+    });
+
+    it('removes tokens if logout mutation fails', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      const error = new Error('Network error');
+      await executeRequest(createLogoutLink(slicknodeLink, () => {
+        throw error;
+      }));
+
+      const result = await slicknodeLink.logoutFromServer();
+      expect(result).to.deep.equal({
+        success: false,
+        result: null,
+        error,
+      });
+      expect(slicknodeLink.hasAccessToken()).to.be.false;
+      expect(slicknodeLink.hasRefreshToken()).to.be.false;
+    });
+
+    it('reports GraphQL errors of logout mutation', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      await executeRequest(createLogoutLink(slicknodeLink, () => ({
+        data: null,
+        errors: [new GraphQLError('Invalid token')],
+      })));
+
+      const result = await slicknodeLink.logoutFromServer();
+      expect(result.success).to.be.false;
+      expect(result.error.message).to.equal('Invalid token');
+      expect(slicknodeLink.hasRefreshToken()).to.be.false;
+    });
+
+    it('removes tokens if no request was executed', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      const result = await slicknodeLink.logoutFromServer();
+      expect(result.success).to.be.false;
+      expect(result.error.message).to.contain('No request was executed');
+      expect(slicknodeLink.hasRefreshToken()).to.be.false;
+    });
+  });
+
+  describe('subscriptions via WebSocket', () => {
+    it('returns connection params with valid access token', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      expect(await slicknodeLink.getConnectionParams()).to.deep.equal({});
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      expect(await slicknodeLink.getConnectionParams()).to.deep.equal({
+        Authorization: 'Bearer accessToken1',
+      });
+    });
+
+    it('refreshes auth token set before returning connection params', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      await executeRequest(createRefreshLink(slicknodeLink, () => ({
+        data: {refreshAuthToken: {...testAuthTokenSet, accessToken: 'accessToken2'}},
+      })));
+      slicknodeLink.setAccessTokenExpires(Date.now() - 1000);
+      expect(await slicknodeLink.getConnectionParams()).to.deep.equal({
+        Authorization: 'Bearer accessToken2',
+      });
+    });
+
+    it('refreshes via refreshLink before any request was executed', async () => {
+      const slicknodeLink = new SlicknodeLink({
+        refreshLink: new ApolloLink(() => Observable.of({
+          data: {refreshAuthToken: {...testAuthTokenSet, accessToken: 'accessToken2'}},
+        })),
+      });
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      expect(await slicknodeLink.getConnectionParams()).to.deep.equal({
+        Authorization: 'Bearer accessToken2',
+      });
+    });
+
+    it('notifies listener when connection params change', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      const listener = sinon.stub();
+      const unsubscribe = slicknodeLink.onConnectionParamsChange(listener);
+      (slicknodeLink as any).emitAuthStateChange('refreshFailed');
+      expect(listener.called).to.be.false;
+      await slicknodeLink.logout();
+      expect(listener.calledOnce).to.be.true;
+      unsubscribe();
+      await slicknodeLink.logout();
+      expect(listener.calledOnce).to.be.true;
+    });
+  });
+
+  describe('transient refresh failures', () => {
+    let clock: sinon.SinonFakeTimers;
+    beforeEach(() => {
+      clock = sinon.useFakeTimers({now: 1000000});
+    });
+    afterEach(() => {
+      clock.restore();
+    });
+
+    function createNetworkError(statusCode?: number) {
+      return Object.assign(new Error('Network error'), statusCode ? {statusCode} : {});
+    }
+
+    // Returns a refresh handler that fails with the given errors before the refresh succeeds
+    function failRefresh(refreshErrors: Error[]) {
+      return (): FetchResult => {
+        const error = refreshErrors.shift();
+        if (error) {
+          throw error;
+        }
+        return {data: {refreshAuthToken: {...testAuthTokenSet, accessToken: 'accessToken2'}}};
+      };
+    }
+
+    it('keeps tokens and retries refresh after network error', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const listener = sinon.stub();
+      slicknodeLink.onAuthStateChange(listener);
+      const refreshErrors = [createNetworkError(), createNetworkError(503)];
+      const link = createRefreshLink(slicknodeLink, failRefresh(refreshErrors), requestStub);
+      const result = executeRequest(link);
+      await clock.tickAsync(0);
+      expect(slicknodeLink.hasRefreshToken()).to.be.true;
+      expect(requestStub.called).to.be.false;
+
+      // Exponential backoff: max 1s before first and 2s before second retry
+      await clock.tickAsync(1000);
+      expect(requestStub.called).to.be.false;
+      await clock.tickAsync(2000);
+      await result;
+      expect(requestStub.firstCall.args[0]).to.deep.equal({Authorization: 'Bearer accessToken2'});
+      expect(listener.args.map((args) => args[0].type)).to.deep.equal(['refreshFailed', 'refreshFailed', 'refresh']);
+    });
+
+    it('keeps tokens and retries refresh after GraphQL server error', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const refreshResults: FetchResult[] = [
+        {errors: [new GraphQLError('Internal error', null, null, null, null, null, {code: 'INTERNAL_SERVER_ERROR'})]},
+        {data: {refreshAuthToken: testRefreshedAuthTokenSet}},
+      ];
+      const link = createRefreshLink(slicknodeLink, () => refreshResults.shift(), requestStub);
+      const result = executeRequest(link);
+      await clock.tickAsync(0);
+      expect(slicknodeLink.hasRefreshToken()).to.be.true;
+      await clock.tickAsync(1000);
+      await result;
+      expect(requestStub.firstCall.args[0]).to.deep.equal({Authorization: 'Bearer accessToken2'});
+    });
+
+    it('logs out if refresh fails with other GraphQL errors', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const refreshErrors = [new GraphQLError('Invalid refresh token')];
+      const link = createRefreshLink(slicknodeLink, () => ({errors: refreshErrors}), requestStub);
+      await executeRequest(link);
+      expect(requestStub.firstCall.args[0]).to.deep.equal({});
+      expect(slicknodeLink.hasRefreshToken()).to.be.false;
+    });
+
+    it('logs out if refresh token is rejected', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      await executeRequest(createRefreshLink(slicknodeLink, failRefresh([createNetworkError(401)]), requestStub));
+      expect(requestStub.firstCall.args[0]).to.deep.equal({});
+      expect(slicknodeLink.hasRefreshToken()).to.be.false;
+    });
+
+    it('keeps tokens when retries are exhausted', async () => {
+      const slicknodeLink = new SlicknodeLink({refreshRetries: 1, refreshRetryDelay: 2});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const refreshErrors = [createNetworkError(), createNetworkError()];
+      const link = createRefreshLink(slicknodeLink, failRefresh(refreshErrors), requestStub);
+      const result = executeRequest(link);
+      await clock.tickAsync(999);
+      expect(requestStub.called).to.be.false;
+      await clock.tickAsync(1001);
+      await result;
+      expect(requestStub.firstCall.args[0]).to.deep.equal({});
+      expect(slicknodeLink.getRefreshToken()).to.equal('refresh1');
+    });
+
+    it('stops retrying refresh after timeout', async () => {
+      const slicknodeLink = new SlicknodeLink({refreshTimeout: 1, refreshRetryDelay: 2});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const refreshErrors = [createNetworkError(), createNetworkError(), createNetworkError()];
+      const result = executeRequest(createRefreshLink(slicknodeLink, failRefresh(refreshErrors), requestStub));
+      await clock.tickAsync(1000);
+      await result;
+      expect(requestStub.firstCall.args[0]).to.deep.equal({});
+
+      await clock.tickAsync(10000);
+      expect(refreshErrors.length).to.equal(2);
+      expect(slicknodeLink.getRefreshState()).to.equal('idle');
+      expect(slicknodeLink.getRefreshToken()).to.equal('refresh1');
+    });
+
+    it('does not time out while retrying with default refresh timeout', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      let refreshCount = 0;
+      const link = createRefreshLink(slicknodeLink, () => {
+        refreshCount++;
+        // Three attempts fail and the last one succeeds, after more than 60 seconds in total
+        return new Promise<FetchResult>((resolve, reject) => setTimeout(() => refreshCount < 4 ?
+          reject(createNetworkError()) :
+          resolve({data: {refreshAuthToken: testRefreshedAuthTokenSet}}), 14500));
+      }, requestStub);
+      const result = executeRequest(link);
+      await clock.tickAsync(60000);
+      expect(requestStub.called).to.be.false;
+      await clock.tickAsync(5000);
+      await result;
+      expect(refreshCount).to.equal(4);
+      expect(requestStub.firstCall.args[0]).to.deep.equal({Authorization: 'Bearer accessToken2'});
+    });
+
+    it('keeps tokens that were replaced while the refresh token was rejected', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const link = createRefreshLink(slicknodeLink, () => new Promise<FetchResult>((resolve, reject) => {
+        setTimeout(() => reject(createNetworkError(401)), 100);
+      }));
+      const result = executeRequest(link);
+      await clock.tickAsync(50);
+      // User logs in again while the refresh is in progress
+      slicknodeLink.setAuthTokenSet(testRefreshedAuthTokenSet);
+      await clock.tickAsync(50);
+      await result;
+      expect(slicknodeLink.getAccessToken()).to.equal('accessToken2');
+      expect(slicknodeLink.getRefreshToken()).to.equal('refresh2');
+    });
+
+    it('sends pending request without auth headers while retrying', async () => {
+      const slicknodeLink = new SlicknodeLink({waitForRefreshRetry: false});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const link = createRefreshLink(slicknodeLink, failRefresh([createNetworkError()]), requestStub);
+      await executeRequest(link);
+      expect(requestStub.firstCall.args[0]).to.deep.equal({});
+
+      // Requests during backoff are not delayed
+      await executeRequest(link);
+      expect(requestStub.secondCall.args[0]).to.deep.equal({});
+
+      await clock.tickAsync(1000);
+      await executeRequest(link);
+      expect(requestStub.thirdCall.args[0]).to.deep.equal({Authorization: 'Bearer accessToken2'});
+    });
+  });
+
+  describe('multiple sessions', () => {
+    const otherTokenSet: IAuthTokenSet = {
+      ...testAuthTokenSet,
+      accessToken: 'otherAccessToken',
+      refreshToken: 'otherRefresh',
+    };
+
+    it('stores tokens per session and authenticates with active session', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      slicknodeLink.setAuthTokenSet(otherTokenSet, 'other');
+      expect(slicknodeLink.getSessions()).to.deep.equal(['default', 'other']);
+      expect(slicknodeLink.getActiveSession()).to.equal('default');
+      expect(await slicknodeLink.getConnectionParams()).to.deep.equal({Authorization: 'Bearer accessToken1'});
+
+      const listener = sinon.stub();
+      slicknodeLink.onAuthStateChange(listener);
+      slicknodeLink.setActiveSession('other');
+      expect(listener.firstCall.args[0].type).to.equal('sessionChange');
+      expect(listener.firstCall.args[0].session).to.equal('other');
+      expect(slicknodeLink.getActiveSession()).to.equal('other');
+      expect(slicknodeLink.getAccessToken()).to.equal('otherAccessToken');
+      expect(await slicknodeLink.getConnectionParams()).to.deep.equal({Authorization: 'Bearer otherAccessToken'});
+    });
+
+    it('keeps default session keys compatible with versions without sessions', () => {
+      const storage = new MemoryStorage();
+      const slicknodeLink = new SlicknodeLink({storage});
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      slicknodeLink.setAuthTokenSet(otherTokenSet, 'other');
+      expect(storage.getItem('slicknode:auth:accessToken')).to.equal('accessToken1');
+      expect(storage.getItem('slicknode:session:other:auth:accessToken')).to.equal('otherAccessToken');
+    });
+
+    it('logs in to session from authenticate directive', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      const handler = sinon.stub().returns({data: {loginMutation: otherTokenSet}});
+      await executeRequest(createLink(slicknodeLink, handler), {
+        query: gql`mutation Login($session: String) {
+          loginMutation @authenticate(session: $session) {
+            accessToken
+            accessTokenLifetime
+            refreshToken
+            refreshTokenLifetime
+          }
+        }`,
+        variables: {session: 'other'},
+      });
+      // Removes variable that was only used in the directive
+      expect(print(handler.firstCall.args[0].query)).to.not.contain('$session');
+      expect(slicknodeLink.getActiveSession()).to.equal('default');
+      expect(slicknodeLink.getAccessToken()).to.equal('accessToken1');
+      expect(slicknodeLink.getSessions()).to.deep.equal(['default', 'other']);
+      slicknodeLink.setActiveSession('other');
+      expect(slicknodeLink.getAccessToken()).to.equal('otherAccessToken');
+    });
+
+    it('refreshes tokens of the active session only', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      slicknodeLink.setAuthTokenSet({...otherTokenSet, accessTokenLifetime: -20}, 'other');
+      slicknodeLink.setActiveSession('other');
+      const refreshStub = sinon.stub().returns({
+        data: {refreshAuthToken: {...otherTokenSet, accessToken: 'otherAccessToken2'}},
+      });
+      const requestStub = sinon.stub();
+      await executeRequest(createRefreshLink(slicknodeLink, refreshStub, requestStub));
+      expect(refreshStub.firstCall.args[0].variables).to.deep.equal({token: 'otherRefresh'});
+      expect(requestStub.firstCall.args[0]).to.deep.equal({
+        Authorization: 'Bearer otherAccessToken2',
+      });
+      slicknodeLink.setActiveSession('default');
+      expect(slicknodeLink.getAccessToken()).to.equal('accessToken1');
+    });
+
+    it('logs out single session and all sessions', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      slicknodeLink.setAuthTokenSet(otherTokenSet, 'other');
+      slicknodeLink.setAuthTokenSet(otherTokenSet, 'third');
+
+      await slicknodeLink.logout('other');
+      expect(slicknodeLink.getSessions()).to.deep.equal(['default', 'third']);
+      expect(slicknodeLink.hasAccessToken()).to.be.true;
+
+      await slicknodeLink.logoutAll();
+      expect(slicknodeLink.getSessions()).to.deep.equal([]);
+      expect(slicknodeLink.hasAccessToken()).to.be.false;
+    });
+
+    it('emits one logout event per session on logoutAll', async () => {
+      const metrics = new InMemoryAuthMetrics();
+      const slicknodeLink = new SlicknodeLink({instrumentation: metrics});
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      slicknodeLink.setAuthTokenSet(otherTokenSet, 'work');
+      const listener = sinon.stub();
+      slicknodeLink.onAuthStateChange(listener);
+
+      await slicknodeLink.logoutAll();
+      expect(listener.args.map((args) => `${args[0].type}:${args[0].session}`)).to.deep.equal([
+        'logout:default',
+        'logout:work',
+      ]);
+      expect(metrics.getCounters().logouts).to.equal(2);
+    });
+  });
+
+  describe('operation context flags', () => {
+    const refreshedResult: FetchResult = {data: {refreshAuthToken: {...testAuthTokenSet, accessToken: 'accessToken2'}}};
+
+    it('sends operation without auth headers and refresh with skipAuth', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const refreshStub = sinon.stub().returns(refreshedResult);
+      await executeRequest(createRefreshLink(slicknodeLink, refreshStub, requestStub), {
+        query: gql`{test}`,
+        context: {skipAuth: true, headers: {'X-Custom': 'value'}},
+      });
+      expect(requestStub.firstCall.args[0]).to.deep.equal({'X-Custom': 'value'});
+      expect(refreshStub.called).to.be.false;
+      expect(slicknodeLink.hasRefreshToken()).to.be.true;
+    });
+
+    it('fails with AuthRequiredError without valid token with requireAuth', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      const requestStub = sinon.stub();
+      const link = createRefreshLink(slicknodeLink, () => refreshedResult, requestStub);
+      try {
+        await executeRequest(link, {query: gql`{test}`, context: {requireAuth: true}});
+        throw new Error('Did not fail');
+      } catch (e) {
+        expect(e).to.be.instanceOf(AuthRequiredError);
+        expect(e).to.be.instanceOf(SlicknodeAuthError);
+        expect(e.code).to.equal('AUTH_REQUIRED');
+      }
+      expect(requestStub.called).to.be.false;
+
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      await executeRequest(link, {query: gql`{test}`, context: {requireAuth: true}});
+      expect(requestStub.firstCall.args[0]).to.deep.equal({Authorization: 'Bearer accessToken1'});
+    });
+
+    it('refreshes valid access token with forceRefresh', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      const requestStub = sinon.stub();
+      const refreshStub = sinon.stub().returns(refreshedResult);
+      await executeRequest(createRefreshLink(slicknodeLink, refreshStub, requestStub), {
+        query: gql`{test}`,
+        context: {forceRefresh: true},
+      });
+      expect(refreshStub.firstCall.args[0].variables).to.deep.equal({token: 'refresh1'});
+      expect(requestStub.firstCall.args[0]).to.deep.equal({Authorization: 'Bearer accessToken2'});
+    });
+
+    it('keeps valid access token if refresh with forceRefresh fails', async () => {
+      const slicknodeLink = new SlicknodeLink({refreshRetries: 0});
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      const requestStub = sinon.stub();
+      const link = createRefreshLink(slicknodeLink, () => {
+        // Access token is still used by other operations during the refresh
+        expect(slicknodeLink.getAccessToken()).to.equal('accessToken1');
+        throw new Error('Network error');
+      }, requestStub);
+      await executeRequest(link, {query: gql`{test}`, context: {forceRefresh: true}});
+      expect(requestStub.firstCall.args[0]).to.deep.equal({Authorization: 'Bearer accessToken1'});
+      expect(slicknodeLink.getAccessToken()).to.equal('accessToken1');
+      expect(slicknodeLink.getRefreshToken()).to.equal('refresh1');
+    });
+  });
+
+  describe('requiresAuth directive', () => {
+    function executeQuery(slicknodeLink: SlicknodeLink, query: any, requestStub: sinon.SinonStub) {
+      return executeRequest(createLink(slicknodeLink, (operation) => {
+        requestStub(print(operation.query), operation.getContext().headers);
+        return {data: {test: true}};
+      }), {query});
+    }
+
+    it('fails with AuthRequiredError without valid token for operation with @requiresAuth', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      const requestStub = sinon.stub();
+      const query = gql`query Viewer @requiresAuth { viewer { id } }`;
+      try {
+        await executeQuery(slicknodeLink, query, requestStub);
+        throw new Error('Did not fail');
+      } catch (e) {
+        expect(e).to.be.instanceOf(AuthRequiredError);
+        expect(e.code).to.equal('AUTH_REQUIRED');
+      }
+      expect(requestStub.called).to.be.false;
+
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      await executeQuery(slicknodeLink, query, requestStub);
+      expect(requestStub.firstCall.args[0]).to.not.contain('@requiresAuth');
+      expect(requestStub.firstCall.args[1]).to.deep.equal({Authorization: 'Bearer accessToken1'});
+    });
+
+    it('prunes fields with @requiresAuth for anonymous users', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      const requestStub = sinon.stub();
+      const query = gql`{ posts { title author @requiresAuth { email } } }`;
+      await executeQuery(slicknodeLink, query, requestStub);
+      expect(requestStub.firstCall.args[0]).to.equal(print(gql`{ posts { title } }`));
+      expect(requestStub.firstCall.args[1]).to.deep.equal({});
+
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      await executeQuery(slicknodeLink, query, requestStub);
+      expect(requestStub.secondCall.args[0]).to.equal(print(gql`{ posts { title author { email } } }`));
+      expect(requestStub.secondCall.args[1]).to.deep.equal({Authorization: 'Bearer accessToken1'});
+    });
+
+    it('replaces selection sets without remaining fields with __typename', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      const requestStub = sinon.stub();
+      await executeQuery(slicknodeLink, gql`{ viewer { email @requiresAuth } }`, requestStub);
+      expect(requestStub.firstCall.args[0]).to.equal(print(gql`{ viewer { __typename } }`));
+    });
+
+    it('removes variables and fragments that are no longer used after pruning', async () => {
+      const schema = buildSchema(`
+        type Query { posts: [Post] }
+        type Post { title: String author(id: ID): User }
+        type User { email: String }
+      `);
+      const slicknodeLink = new SlicknodeLink();
+      const requestStub = sinon.stub();
+      const query = gql`
+        query Posts($id: ID) { posts { title author(id: $id) @requiresAuth { ...UserFields } } }
+        fragment UserFields on User { email }
+      `;
+      await executeQuery(slicknodeLink, query, requestStub);
+      expect(requestStub.firstCall.args[0]).to.equal(print(gql`query Posts { posts { title } }`));
+      expect(validate(schema, parse(requestStub.firstCall.args[0]))).to.deep.equal([]);
+
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      await executeQuery(slicknodeLink, query, requestStub);
+      expect(requestStub.secondCall.args[0]).to.contain('fragment UserFields');
+      expect(validate(schema, parse(requestStub.secondCall.args[0]))).to.deep.equal([]);
+    });
+  });
+
+  describe('strict auth errors', () => {
+    async function expectAuthError(link: ApolloLink): Promise<SlicknodeAuthError> {
+      try {
+        await executeRequest(link);
+      } catch (e) {
+        expect(e).to.be.instanceOf(SlicknodeAuthError);
+        return e;
+      }
+      throw new Error('Operation did not fail');
+    }
+
+    it('emits REFRESH_FAILED error if refresh token is rejected', async () => {
+      const slicknodeLink = new SlicknodeLink({strictAuth: true});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const networkError = Object.assign(new Error('Unauthorized'), {statusCode: 401});
+      const error = await expectAuthError(createRefreshLink(slicknodeLink, () => {
+        throw networkError;
+      }, requestStub));
+      expect(error.code).to.equal('REFRESH_FAILED');
+      expect(error.cause).to.equal(networkError);
+      expect(requestStub.called).to.be.false;
+      expect(slicknodeLink.hasRefreshToken()).to.be.false;
+    });
+
+    it('emits TOKEN_INVALID error if refresh returns invalid auth token set', async () => {
+      const slicknodeLink = new SlicknodeLink({strictAuth: true});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const error = await expectAuthError(createRefreshLink(slicknodeLink, () => ({
+        data: {refreshAuthToken: {accessToken: 'accessToken2'}},
+      }), requestStub));
+      expect(error.code).to.equal('TOKEN_INVALID');
+      expect(requestStub.called).to.be.false;
+    });
+
+    it('emits NOT_AUTHENTICATED error if auth tokens expired', async () => {
+      const slicknodeLink = new SlicknodeLink({strictAuth: true});
+      slicknodeLink.setAuthTokenSet({...expiredAuthTokenSet, refreshTokenLifetime: -10});
+      const requestStub = sinon.stub();
+      const error = await expectAuthError(createRefreshLink(slicknodeLink, () => null, requestStub));
+      expect(error.code).to.equal('NOT_AUTHENTICATED');
+      expect(requestStub.called).to.be.false;
+    });
+
+    it('sends operation without auth headers if not strict', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const link = createRefreshLink(slicknodeLink, () => ({data: {refreshAuthToken: null}}), requestStub);
+      await executeRequest(link);
+      expect(requestStub.firstCall.args[0]).to.deep.equal({});
+    });
+  });
+
+  describe('auth state snapshot', () => {
+    it('exports and hydrates auth state', () => {
+      const serverLink = new SlicknodeLink({storage: new MemoryStorage()});
+      expect(serverLink.exportAuthState()).to.be.null;
+      serverLink.setAuthTokenSet(testAuthTokenSet);
+      const snapshot = JSON.parse(JSON.stringify(serverLink.exportAuthState()));
+      expect(snapshot).to.deep.equal({
+        version: 1,
+        accessToken: 'accessToken1',
+        accessTokenExpires: serverLink.getAccessTokenExpires(),
+        refreshToken: 'refresh1',
+        refreshTokenExpires: serverLink.getRefreshTokenExpires(),
+      });
+
+      const browserLink = new SlicknodeLink({storage: new MemoryStorage()});
+      const listener = sinon.stub();
+      browserLink.onAuthStateChange(listener);
+      expect(browserLink.hydrateAuthState(snapshot)).to.be.true;
+      expect(browserLink.getAccessToken()).to.equal('accessToken1');
+      expect(browserLink.getAccessTokenExpires()).to.equal(serverLink.getAccessTokenExpires());
+      expect(browserLink.getRefreshToken()).to.equal('refresh1');
+      expect(listener.firstCall.args[0].type).to.equal('login');
+    });
+
+    it('counts hydration as login in instrumentation', () => {
+      const serverLink = new SlicknodeLink({storage: new MemoryStorage()});
+      serverLink.setAuthTokenSet(testAuthTokenSet);
+      const onLogin = sinon.stub();
+      const browserLink = new SlicknodeLink({storage: new MemoryStorage(), instrumentation: {onLogin}});
+      expect(browserLink.hydrateAuthState(serverLink.exportAuthState())).to.be.true;
+      expect(onLogin.calledOnceWith({session: 'default'})).to.be.true;
+    });
+
+    it('excludes refresh token and removes stored refresh token on hydration', () => {
+      const serverLink = new SlicknodeLink({storage: new MemoryStorage()});
+      serverLink.setAuthTokenSet(testAuthTokenSet);
+      const snapshot = serverLink.exportAuthState({includeRefreshToken: false});
+      expect(snapshot.refreshToken).to.be.null;
+      expect(snapshot.refreshTokenExpires).to.be.null;
+
+      const browserLink = new SlicknodeLink({storage: new MemoryStorage()});
+      browserLink.setAuthTokenSet({...testAuthTokenSet, accessToken: 'oldAccessToken', refreshToken: 'browserRefresh'});
+      expect(browserLink.hydrateAuthState(snapshot)).to.be.true;
+      expect(browserLink.getAccessToken()).to.equal('accessToken1');
+      expect(browserLink.getRefreshToken()).to.be.null;
+      expect(browserLink.getRefreshTokenExpires()).to.be.null;
+    });
+
+    it('rejects invalid and expired snapshots', () => {
+      const slicknodeLink = new SlicknodeLink({storage: new MemoryStorage()});
+      const snapshot = {
+        version: 1,
+        accessToken: 'accessToken1',
+        accessTokenExpires: Date.now() + 20000,
+        refreshToken: 'refresh1',
+        refreshTokenExpires: Date.now() + 100000,
+      };
+      expect(slicknodeLink.hydrateAuthState(null)).to.be.false;
+      expect(slicknodeLink.hydrateAuthState({...snapshot, version: 2})).to.be.false;
+      expect(slicknodeLink.hydrateAuthState({...snapshot, accessToken: 123} as any)).to.be.false;
+      expect(slicknodeLink.hydrateAuthState({...snapshot, accessTokenExpires: Date.now() - 1000})).to.be.false;
+      expect(slicknodeLink.hydrateAuthState({...snapshot, refreshTokenExpires: null})).to.be.false;
+      expect(slicknodeLink.hasAccessToken()).to.be.false;
+    });
+  });
+
+  describe('logger', () => {
+    function createLogger() {
+      return {
+        debug: sinon.stub(),
+        info: sinon.stub(),
+        warn: sinon.stub(),
+        error: sinon.stub(),
+      };
+    }
+
+    it('logs refresh with duration and expiry and redacts tokens', async () => {
+      const logger = createLogger();
+      const slicknodeLink = new SlicknodeLink({logger});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const link = createRefreshLink(slicknodeLink, () => ({data: {refreshAuthToken: testRefreshedAuthTokenSet}}));
+      await executeRequest(link, {query: gql`query GetTest {test}`});
+      const successCall = logger.info.getCalls().find((call) => call.args[0] === 'refresh.success');
+      expect(successCall.args[1].session).to.equal('default');
+      expect(successCall.args[1].duration).to.be.a('number');
+      expect(successCall.args[1].accessTokenExpires).to.equal(slicknodeLink.getAccessTokenExpires());
+
+      const loggedValues = JSON.stringify(
+        ['debug', 'info', 'warn', 'error'].map((level) => (logger as any)[level].args),
+      );
+      expect(loggedValues).to.not.contain('accessToken2');
+      expect(loggedValues).to.not.contain('refresh2');
+    });
+
+    it('logs missing fragments', () => {
+      const logger = createLogger();
+      const slicknodeLink = new SlicknodeLink({logger});
+      (slicknodeLink as any).getResultListeners({
+        operationName: 'LoginUser',
+        query: gql`mutation LoginUser {
+          ...MissingFragment
+        }`,
+      });
+      expect(logger.error.firstCall.args).to.deep.equal([
+        'document.fragmentNotFound',
+        {operationName: 'LoginUser', fragmentName: 'MissingFragment'},
+      ]);
+    });
+  });
+
+  describe('instrumentation', () => {
+    // Responds to the refresh mutation after 5ms
+    function delayRefresh(refreshResult: FetchResult) {
+      return () => new Promise<FetchResult>((resolve) => setTimeout(() => resolve(refreshResult), 5));
+    }
+
+    it('counts refreshes and operations waiting for auth headers', async () => {
+      const metrics = new InMemoryAuthMetrics();
+      const slicknodeLink = new SlicknodeLink({instrumentation: metrics});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const link = createRefreshLink(slicknodeLink, delayRefresh({
+        data: {refreshAuthToken: {...testAuthTokenSet, accessToken: 'accessToken2'}},
+      }));
+      await Promise.all([executeRequest(link), executeRequest(link)]);
+      await executeRequest(link);
+      const counters = metrics.getCounters();
+      expect(counters.refreshStarted).to.equal(1);
+      expect(counters.refreshSucceeded).to.equal(1);
+      expect(counters.refreshDurationTotal).to.be.at.least(1);
+      expect(counters.headersWaits).to.equal(2);
+      expect(counters.headersWaitTotal).to.be.at.least(2);
+
+      await slicknodeLink.logout();
+      expect(metrics.getCounters().logouts).to.equal(1);
+      metrics.reset();
+      expect(metrics.getCounters().logouts).to.equal(0);
+    });
+
+    it('counts failed refreshes and logins', async () => {
+      const metrics = new InMemoryAuthMetrics();
+      const slicknodeLink = new SlicknodeLink({instrumentation: metrics});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      await executeRequest(createRefreshLink(slicknodeLink, delayRefresh({data: {refreshAuthToken: null}})));
+      expect(metrics.getCounters()).to.include({refreshStarted: 1, refreshFailed: 1, logouts: 1});
+
+      const requestStub = sinon.stub().returns({data: {loginMutation: testAuthTokenSet}});
+      await executeRequest(createRefreshLink(slicknodeLink, delayRefresh(null), requestStub), {
+        query: gql`mutation {
+          loginMutation @authenticate {
+            accessToken
+            accessTokenLifetime
+            refreshToken
+            refreshTokenLifetime
+          }
+        }`,
+      });
+      expect(metrics.getCounters().logins).to.equal(1);
+    });
+
+    it('does not fail operations if a hook throws', async () => {
+      const slicknodeLink = new SlicknodeLink({
+        instrumentation: {
+          onRefreshStart: () => {
+            throw new Error('Hook failed');
+          },
+        },
+        logger: {debug: sinon.stub(), info: sinon.stub(), warn: sinon.stub(), error: sinon.stub()},
+      });
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const result = await executeRequest(createRefreshLink(slicknodeLink, delayRefresh({
+        data: {refreshAuthToken: {...testAuthTokenSet, accessToken: 'accessToken2'}},
+      })));
+      expect(result).to.deep.equal({data: {test: true}});
+      expect(slicknodeLink.getAccessToken()).to.equal('accessToken2');
+    });
+  });
+
+  describe('refresh coordination', () => {
+    let clock: sinon.SinonFakeTimers;
+    beforeEach(() => {
+      clock = sinon.useFakeTimers({now: 1000000});
+    });
+    afterEach(() => {
+      clock.restore();
+    });
+
+    // Responds to each refresh after the next delay, or never if the delay is null.
+    // Every refresh rotates the access and refresh token
+    function delayRefreshes(refreshDelays: (number | null)[]) {
+      let refreshCount = 0;
+      return () => {
+        refreshCount++;
+        const delay = refreshDelays.shift();
+        const tokenSet = {
+          ...testAuthTokenSet,
+          accessToken: `refreshed${refreshCount}`,
+          refreshToken: `refresh${refreshCount + 1}`,
+        };
+        return new Promise<FetchResult>((resolve) => {
+          if (delay !== null) {
+            setTimeout(() => resolve({data: {refreshAuthToken: tokenSet}}), delay);
+          }
+        });
+      };
+    }
+
+    it('queues requests during refresh and sends them with the refreshed token', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const link = createRefreshLink(slicknodeLink, delayRefreshes([100]), requestStub);
+      expect(slicknodeLink.getRefreshState()).to.equal('idle');
+
+      const first = executeRequest(link);
+      await clock.tickAsync(50);
+      expect(slicknodeLink.getRefreshState()).to.equal('refreshing');
+      const second = executeRequest(link);
+      await clock.tickAsync(49);
+      const third = executeRequest(link);
+      expect(requestStub.called).to.be.false;
+
+      await clock.tickAsync(1);
+      await Promise.all([first, second, third]);
+      expect(requestStub.args.map((args) => args[0])).to.deep.equal([
+        {Authorization: 'Bearer refreshed1'},
+        {Authorization: 'Bearer refreshed1'},
+        {Authorization: 'Bearer refreshed1'},
+      ]);
+      expect(slicknodeLink.getRefreshState()).to.equal('authenticated');
+
+      // Request after refresh uses stored token without refresh
+      await executeRequest(link);
+      expect(requestStub.lastCall.args[0]).to.deep.equal({Authorization: 'Bearer refreshed1'});
+    });
+
+    it('queues requests during background refresh', async () => {
+      const slicknodeLink = new SlicknodeLink({refreshBeforeExpiry: 10});
+      slicknodeLink.setAuthTokenSet(testAuthTokenSet);
+      const requestStub = sinon.stub();
+      const link = createRefreshLink(slicknodeLink, delayRefreshes([100]), requestStub);
+      await executeRequest(link);
+      expect(requestStub.lastCall.args[0]).to.deep.equal({Authorization: 'Bearer accessToken1'});
+
+      // Background refresh starts 10 seconds before expiry
+      await clock.tickAsync(10000);
+      expect(slicknodeLink.getRefreshState()).to.equal('refreshing');
+      const request = executeRequest(link);
+      await clock.tickAsync(100);
+      await request;
+      expect(requestStub.lastCall.args[0]).to.deep.equal({Authorization: 'Bearer refreshed1'});
+    });
+
+    it('sends waiting requests without auth headers if refresh times out', async () => {
+      const slicknodeLink = new SlicknodeLink({refreshTimeout: 5});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const link = createRefreshLink(slicknodeLink, delayRefreshes([null, 10]), requestStub);
+      const request = executeRequest(link);
+      await clock.tickAsync(4999);
+      expect(requestStub.called).to.be.false;
+      await clock.tickAsync(1);
+      await request;
+      expect(requestStub.firstCall.args[0]).to.deep.equal({});
+      expect(slicknodeLink.getRefreshState()).to.equal('idle');
+
+      // Next request starts a new refresh
+      const nextRequest = executeRequest(link);
+      await clock.tickAsync(10);
+      await nextRequest;
+      expect(requestStub.secondCall.args[0]).to.deep.equal({Authorization: 'Bearer refreshed2'});
+    });
+
+    it('fails waiting requests if refresh times out in strict mode', async () => {
+      const slicknodeLink = new SlicknodeLink({refreshTimeout: 5, strictAuth: true});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const link = createRefreshLink(slicknodeLink, delayRefreshes([null]), requestStub);
+      const request = executeRequest(link).catch((e) => e);
+      await clock.tickAsync(5000);
+      const error = await request;
+      expect(error).to.be.instanceOf(SlicknodeAuthError);
+      expect(error.code).to.equal('REFRESH_FAILED');
+      expect(requestStub.called).to.be.false;
+    });
+
+    it('ignores result of refresh that completes after timeout', async () => {
+      const slicknodeLink = new SlicknodeLink({refreshTimeout: 0.2});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      const link = createRefreshLink(slicknodeLink, delayRefreshes([400, 50]), requestStub);
+      const first = executeRequest(link);
+      await clock.tickAsync(200);
+      await first;
+      expect(requestStub.firstCall.args[0]).to.deep.equal({});
+
+      // Second refresh completes before the refresh that timed out
+      const second = executeRequest(link);
+      await clock.tickAsync(50);
+      await second;
+      expect(requestStub.secondCall.args[0]).to.deep.equal({Authorization: 'Bearer refreshed2'});
+
+      await clock.tickAsync(150);
+      expect(slicknodeLink.getAccessToken()).to.equal('refreshed2');
+      expect(slicknodeLink.getRefreshState()).to.equal('authenticated');
+    });
+
+    it('stores result of refresh that completes after timeout if no newer refresh replaced the tokens', async () => {
+      const slicknodeLink = new SlicknodeLink({refreshTimeout: 0.2});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const listener = sinon.stub();
+      slicknodeLink.onAuthStateChange(listener);
+      const requestStub = sinon.stub();
+      const request = executeRequest(createRefreshLink(slicknodeLink, delayRefreshes([400]), requestStub));
+      await clock.tickAsync(200);
+      await request;
+      expect(requestStub.firstCall.args[0]).to.deep.equal({});
+      expect(slicknodeLink.getAccessToken()).to.be.null;
+
+      await clock.tickAsync(200);
+      expect(slicknodeLink.getAccessToken()).to.equal('refreshed1');
+      expect(slicknodeLink.getRefreshToken()).to.equal('refresh2');
+      expect(listener.lastCall.args[0].type).to.equal('refresh');
+    });
+
+    it('reports refresh that never completes as timed out', async () => {
+      const metrics = new InMemoryAuthMetrics();
+      const onRefreshEnd = sinon.spy(metrics, 'onRefreshEnd');
+      const slicknodeLink = new SlicknodeLink({refreshTimeout: 5, instrumentation: metrics});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const request = executeRequest(createRefreshLink(slicknodeLink, delayRefreshes([null])));
+      await clock.tickAsync(5000);
+      await request;
+      expect(metrics.getCounters()).to.include({refreshStarted: 1, refreshTimeouts: 1});
+      expect(onRefreshEnd.firstCall.args[0]).to.include({session: 'default', duration: 5000, outcome: 'timeout'});
+    });
+
+    it('reports refresh that completes after timeout once', async () => {
+      const metrics = new InMemoryAuthMetrics();
+      const slicknodeLink = new SlicknodeLink({refreshTimeout: 0.2, instrumentation: metrics});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const request = executeRequest(createRefreshLink(slicknodeLink, delayRefreshes([400])));
+      await clock.tickAsync(400);
+      await request;
+      expect(metrics.getCounters()).to.include({refreshStarted: 1, refreshTimeouts: 1, refreshSucceeded: 0});
+    });
+
+    it('uses permanent access token without waiting for refresh', async () => {
+      const slicknodeLink = new SlicknodeLink({accessToken: 'permanent'});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const requestStub = sinon.stub();
+      // Refresh would never complete
+      await executeRequest(createRefreshLink(slicknodeLink, delayRefreshes([null]), requestStub));
+      expect(requestStub.firstCall.args[0]).to.deep.equal({Authorization: 'Bearer permanent'});
+      expect(slicknodeLink.getRefreshState()).not.to.equal('refreshing');
+    });
+  });
+
+  describe('refresh transport', () => {
+    function createRefreshTransport(refreshStub: sinon.SinonStub) {
+      return new ApolloLink((operation) => new Observable<FetchResult>((observer) => {
+        refreshStub(operation);
+        observer.next({data: {refreshAuthToken: {...testAuthTokenSet, accessToken: 'accessToken2'}}});
+        observer.complete();
+      }));
+    }
+
+    it('sends refresh mutation via refreshLink', async () => {
+      const refreshStub = sinon.stub();
+      const slicknodeLink = new SlicknodeLink({refreshLink: createRefreshTransport(refreshStub)});
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const forwardStub = sinon.stub().returns({data: {test: true}});
+      await executeRequest(createLink(slicknodeLink, forwardStub));
+      expect(refreshStub.calledOnce).to.be.true;
+      expect(refreshStub.firstCall.args[0].query).to.equal(REFRESH_TOKEN_MUTATION);
+      expect(forwardStub.calledOnce).to.be.true;
+      expect(forwardStub.firstCall.args[0].getContext().headers).to.deep.equal({Authorization: 'Bearer accessToken2'});
+    });
+
+    it('forwards context of operation to refresh operation', async () => {
+      const refreshStub = sinon.stub();
+      const getRefreshContext = sinon.stub().callsFake((operation) => ({
+        uri: operation.getContext().uri,
+        headers: {'X-Tenant': operation.getContext().headers['X-Tenant']},
+      }));
+      const slicknodeLink = new SlicknodeLink({
+        refreshLink: createRefreshTransport(refreshStub),
+        getRefreshContext,
+      });
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      await executeRequest(createLink(slicknodeLink, () => ({data: {test: true}})), {
+        query: gql`{test}`,
+        context: {uri: 'https://example.com/graphql', headers: {'X-Tenant': 'tenant1'}},
+      });
+      expect(getRefreshContext.firstCall.args[0].query).to.not.equal(REFRESH_TOKEN_MUTATION);
+      const refreshContext = refreshStub.firstCall.args[0].getContext();
+      expect(refreshContext.uri).to.equal('https://example.com/graphql');
+      expect(refreshContext.headers).to.deep.equal({'X-Tenant': 'tenant1'});
+    });
+
+    it('keeps tokens if refreshLink completes without result', async () => {
+      const slicknodeLink = new SlicknodeLink({
+        refreshLink: new ApolloLink(() => Observable.of()),
+        refreshRetries: 0,
+      });
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      const forwardStub = sinon.stub().returns({data: {test: true}});
+      await executeRequest(createLink(slicknodeLink, forwardStub));
+      expect(forwardStub.firstCall.args[0].getContext().headers).to.deep.equal({});
+      expect(slicknodeLink.hasRefreshToken()).to.be.true;
+      expect(slicknodeLink.getRefreshState()).to.equal('anonymous');
+    });
+
+    it('fails refresh if refreshLink is not terminating', async () => {
+      const slicknodeLink = new SlicknodeLink({
+        refreshLink: new ApolloLink((operation, forward) => forward(operation)),
+        refreshRetries: 0,
+        strictAuth: true,
+      });
+      slicknodeLink.setAuthTokenSet(expiredAuthTokenSet);
+      try {
+        await executeRequest(createLink(slicknodeLink, () => ({data: {test: true}})));
+        throw new Error('Did not fail');
+      } catch (e) {
+        expect(e).to.be.instanceOf(SlicknodeAuthError);
+        expect(e.code).to.equal('REFRESH_FAILED');
+      }
+    });
+  });
+
+  describe('cancellation', () => {
+    it('does not forward operation that is unsubscribed before auth headers are available', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      const forwardStub = sinon.stub().returns({data: {test: true}});
+      const link = createLink(slicknodeLink, forwardStub);
+      const next = sinon.stub();
+      const error = sinon.stub();
+      const subscription = execute(link, {query: gql`{test}`}).subscribe({next, error});
+      subscription.unsubscribe();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(forwardStub.called).to.be.false;
+      expect(next.called).to.be.false;
+      expect(error.called).to.be.false;
+    });
+
+    it('unsubscribes from forwarded operation and ignores later results', async () => {
+      const slicknodeLink = new SlicknodeLink();
+      const cleanup = sinon.stub();
+      let emitResult: (result: FetchResult) => void;
+      let resolveForwarded: () => void;
+      const forwarded = new Promise<void>((resolve) => {
+        resolveForwarded = resolve;
+      });
+      const link = ApolloLink.from([
+        slicknodeLink,
+        new ApolloLink(() => new Observable<FetchResult>((observer) => {
+          emitResult = (result) => observer.next(result);
+          resolveForwarded();
+          return cleanup;
+        })),
+      ]);
+      const next = sinon.stub();
+      const subscription = execute(link, {
+        query: gql`mutation {
+          loginMutation @authenticate {
+            accessToken
+            accessTokenLifetime
+            refreshToken
+            refreshTokenLifetime
+          }
+        }`,
+      }).subscribe({next});
+      await forwarded;
+      subscription.unsubscribe();
+      expect(cleanup.calledOnce).to.be.true;
+
+      emitResult({data: {loginMutation: testAuthTokenSet}});
+      expect(next.called).to.be.false;
+      expect(slicknodeLink.hasAccessToken()).to.be.false;
+    });
+  });
+
   it('throws error if SlicknodeLink is last link in chain', () => {
     const slicknodeLink = new SlicknodeLink();
 
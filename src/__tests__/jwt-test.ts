@@ -0,0 +1,43 @@
+import {expect} from 'chai';
+import {decodeJwt} from '../jwt';
+
+function encode(value: any): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64')
+    .replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+// tslint:disable no-unused-expression
+
+describe('decodeJwt', () => {
+  it('decodes claims with multi-byte characters', () => {
+    const claims = {sub: '123', name: 'Zoë 🙂 用户', exp: 1600000000};
+    expect(decodeJwt([encode({alg: 'HS256'}), encode(claims), 'signature'].join('.'))).to.deep.equal(claims);
+  });
+
+  it('decodes claims without atob and TextDecoder', () => {
+    // Restore the original descriptors, the globals are not enumerable in Node
+    const descriptors = ['atob', 'TextDecoder'].map((name) => {
+      const descriptor = Object.getOwnPropertyDescriptor(global, name);
+      delete (global as any)[name];
+      return {name, descriptor};
+    });
+    try {
+      expect(decodeJwt([encode({alg: 'HS256'}), encode({exp: 1600000000}), 'signature'].join('.')))
+        .to.deep.equal({exp: 1600000000});
+    } finally {
+      descriptors.forEach(({name, descriptor}) => {
+        if (descriptor) {
+          Object.defineProperty(global, name, descriptor);
+        }
+      });
+    }
+  });
+
+  it('returns null for invalid tokens', () => {
+    expect(decodeJwt('opaqueToken')).to.be.null;
+    expect(decodeJwt('header.not*base64.signature')).to.be.null;
+    expect(decodeJwt(['header', encode('string'), 'signature'].join('.'))).to.be.null;
+    expect(decodeJwt(['header', encode([1]), 'signature'].join('.'))).to.be.null;
+    expect(decodeJwt('header.e30x.signature')).to.be.null;
+  });
+});
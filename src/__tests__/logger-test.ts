@@ -0,0 +1,58 @@
+import {expect} from 'chai';
+import sinon from 'sinon';
+import {createConsoleLogger, redactLogFields} from '../logger';
+
+// tslint:disable no-console
+
+describe('logger', () => {
+  describe('redactLogFields', () => {
+    it('redacts tokens and auth headers', () => {
+      expect(redactLogFields({
+        accessToken: 'accessToken1',
+        refreshToken: 'refresh1',
+        accessTokenExpires: 1000,
+        headers: {Authorization: 'Bearer accessToken1', 'X-Custom': 'value'},
+        jwt: 'eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.signature',
+        operationName: 'GetUser',
+        missing: null,
+      })).to.deep.equal({
+        accessToken: '[REDACTED]',
+        refreshToken: '[REDACTED]',
+        accessTokenExpires: 1000,
+        headers: {Authorization: '[REDACTED]', 'X-Custom': 'value'},
+        jwt: '[REDACTED]',
+        operationName: 'GetUser',
+        missing: null,
+      });
+    });
+  });
+
+  describe('createConsoleLogger', () => {
+    let sandbox: sinon.SinonSandbox;
+    beforeEach(() => {
+      sandbox = sinon.createSandbox();
+      sandbox.stub(console, 'debug');
+      sandbox.stub(console, 'error');
+    });
+    afterEach(() => {
+      sandbox.restore();
+    });
+
+    it('writes only errors if debug is disabled', () => {
+      const logger = createConsoleLogger(false);
+      logger.debug('refresh.start');
+      logger.error('storage.writeFailed', {error: 'Quota exceeded'});
+      expect((console.debug as sinon.SinonStub).called).to.equal(false);
+      expect((console.error as sinon.SinonStub).firstCall.args).to.deep.equal([
+        '[Slicknode Auth] storage.writeFailed',
+        {error: 'Quota exceeded'},
+      ]);
+    });
+
+    it('writes all levels if debug is enabled', () => {
+      const logger = createConsoleLogger(true);
+      logger.debug('refresh.start');
+      expect((console.debug as sinon.SinonStub).firstCall.args).to.deep.equal(['[Slicknode Auth] refresh.start']);
+    });
+  });
+});
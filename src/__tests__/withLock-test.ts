@@ -0,0 +1,68 @@
+import {expect} from 'chai';
+import sinon from 'sinon';
+import withLock from '../sync/withLock';
+
+// tslint:disable no-unused-expression
+
+describe('withLock', () => {
+  it('runs callbacks with the same name one at a time', async () => {
+    const events: string[] = [];
+    const first = withLock('test', async () => {
+      events.push('first:start');
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      events.push('first:end');
+      return 'first';
+    });
+    const second = withLock('test', async () => {
+      events.push('second');
+      return 'second';
+    });
+    expect(await Promise.all([first, second])).to.deep.equal(['first', 'second']);
+    expect(events).to.deep.equal(['first:start', 'first:end', 'second']);
+  });
+
+  it('runs callbacks with different names in parallel', async () => {
+    const events: string[] = [];
+    const first = withLock('first', async () => {
+      events.push('first:start');
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      events.push('first:end');
+    });
+    const second = withLock('second', async () => {
+      events.push('second');
+    });
+    await Promise.all([first, second]);
+    expect(events).to.deep.equal(['first:start', 'second', 'first:end']);
+  });
+
+  it('releases lock if callback fails', async () => {
+    const error = new Error('Failed');
+    const first = withLock('test', () => Promise.reject(error)).catch((e) => e);
+    const second = withLock('test', async () => 'second');
+    expect(await first).to.equal(error);
+    expect(await second).to.equal('second');
+  });
+
+  describe('with Web Locks API', () => {
+    let navigatorDescriptor: PropertyDescriptor | undefined;
+    let request: sinon.SinonStub;
+    beforeEach(() => {
+      navigatorDescriptor = Object.getOwnPropertyDescriptor(global, 'navigator');
+      request = sinon.stub().callsFake((name, callback) => callback());
+      Object.defineProperty(global, 'navigator', {value: {locks: {request}}, configurable: true});
+    });
+    afterEach(() => {
+      if (navigatorDescriptor) {
+        Object.defineProperty(global, 'navigator', navigatorDescriptor);
+      } else {
+        delete (global as any).navigator;
+      }
+    });
+
+    it('acquires lock via the Web Locks API', async () => {
+      expect(await withLock('test', async () => 'result')).to.equal('result');
+      expect(request.calledOnce).to.be.true;
+      expect(request.firstCall.args[0]).to.equal('test');
+    });
+  });
+});
@@ -0,0 +1,12 @@
+import SlicknodeAuthError from './SlicknodeAuthError';
+
+/**
+ * Error that is emitted for operations with the context flag `requireAuth` or
+ * the `@requiresAuth` directive if no valid access token could be obtained
+ */
+export default class AuthRequiredError extends SlicknodeAuthError {
+  constructor(message: string = 'Operation requires authentication, but no valid access token is available') {
+    super('AUTH_REQUIRED', message);
+    this.name = 'AuthRequiredError';
+  }
+}
@@ -0,0 +1,20 @@
+import {SlicknodeAuthErrorCode} from '../types';
+
+/**
+ * Error that is emitted to the observer of an operation if the operation could not be authenticated
+ */
+export default class SlicknodeAuthError extends Error {
+  public readonly code: SlicknodeAuthErrorCode;
+
+  /**
+   * The error that caused the authentication to fail, for example the network error of the refresh mutation
+   */
+  public readonly cause: Error | null;
+
+  constructor(code: SlicknodeAuthErrorCode, message: string, cause: Error | null = null) {
+    super(message);
+    this.name = 'SlicknodeAuthError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
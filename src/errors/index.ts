@@ -0,0 +1,2 @@
+export {default as AuthRequiredError} from './AuthRequiredError';
+export {default as SlicknodeAuthError} from './SlicknodeAuthError';
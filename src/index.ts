@@ -4,5 +4,8 @@ export {
   REFRESH_TOKEN_MUTATION,
 } from './SlicknodeLink';
 
+export * from './errors';
+export * from './instrumentation';
 export * from './storage';
+export * from './sync';
 export * from './types';
@@ -0,0 +1,88 @@
+import {
+  IAuthInstrumentation,
+  IAuthMetricsCounters,
+  IHeadersWaitEvent,
+  IRefreshEndEvent,
+  IRefreshStartEvent,
+  ISessionEvent,
+} from '../types';
+
+/**
+ * Instrumentation that counts refreshes, logins and logouts in memory, so they
+ * can be read by tests or exported to dashboards
+ */
+export default class InMemoryAuthMetrics implements IAuthInstrumentation {
+  private counters: IAuthMetricsCounters;
+
+  constructor() {
+    this.counters = createCounters();
+  }
+
+  public onRefreshStart(event: IRefreshStartEvent): void {
+    this.counters.refreshStarted++;
+  }
+
+  public onRefreshEnd(event: IRefreshEndEvent): void {
+    switch (event.outcome) {
+      case 'success':
+        this.counters.refreshSucceeded++;
+        break;
+      case 'invalid':
+        this.counters.refreshInvalid++;
+        break;
+      case 'failed':
+        this.counters.refreshFailed++;
+        break;
+      case 'transient':
+        this.counters.refreshTransientErrors++;
+        break;
+      case 'timeout':
+        this.counters.refreshTimeouts++;
+        break;
+    }
+    this.counters.refreshDurationTotal += event.duration;
+  }
+
+  public onHeadersWait(event: IHeadersWaitEvent): void {
+    this.counters.headersWaits++;
+    this.counters.headersWaitTotal += event.duration;
+  }
+
+  public onLogin(event: ISessionEvent): void {
+    this.counters.logins++;
+  }
+
+  public onLogout(event: ISessionEvent): void {
+    this.counters.logouts++;
+  }
+
+  /**
+   * Returns a copy of the current counters
+   */
+  public getCounters(): IAuthMetricsCounters {
+    return {...this.counters};
+  }
+
+  /**
+   * Resets all counters to 0
+   */
+  public reset(): void {
+    this.counters = createCounters();
+  }
+}
+
+function createCounters(): IAuthMetricsCounters {
+  return {
+    refreshStarted: 0,
+    refreshSucceeded: 0,
+    refreshInvalid: 0,
+    refreshFailed: 0,
+    refreshTransientErrors: 0,
+    refreshTimeouts: 0,
+    refreshDurationTotal: 0,
+    headersWaits: 0,
+    headersWaitTotal: 0,
+    logins: 0,
+    logouts: 0,
+  };
+}
@@ -0,0 +1 @@
+export {default as InMemoryAuthMetrics} from './InMemoryAuthMetrics';
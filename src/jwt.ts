@@ -0,0 +1,82 @@
+import {IJwtClaims} from './types';
+
+const BASE64URL_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Returns the claims of the payload of a JWT, NULL if the token is not a valid JWT.
+ * The signature is not verified
+ *
+ * @param token
+ */
+export function decodeJwt(token: string): IJwtClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+  const bytes = decodeBase64Url(parts[1]);
+  if (!bytes) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(decodeUtf8(bytes));
+    return claims && typeof claims === 'object' && !Array.isArray(claims) ? claims : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+// tslint:disable no-bitwise
+
+/**
+ * Decodes a base64url string without depending on atob or Buffer, which are not available
+ * in all environments (for example React Native). Returns NULL if the string is not valid base64url
+ *
+ * @param value
+ */
+function decodeBase64Url(value: string): number[] | null {
+  // Accept padding and the characters of standard base64 as well
+  const normalized = value.replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of normalized) {
+    const index = BASE64URL_CHARS.indexOf(char);
+    if (index === -1) {
+      return null;
+    }
+    buffer = (buffer << 6) | index;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+      buffer &= (1 << bits) - 1;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Decodes UTF-8 bytes without depending on TextDecoder
+ *
+ * @param bytes
+ */
+function decodeUtf8(bytes: number[]): string {
+  let result = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i++];
+    let codePoint: number;
+    if (byte < 0x80) {
+      codePoint = byte;
+    } else if (byte >= 0xf0) {
+      codePoint = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) |
+        (bytes[i++] & 0x3f);
+    } else if (byte >= 0xe0) {
+      codePoint = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else {
+      codePoint = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    }
+    result += String.fromCodePoint(codePoint);
+  }
+  return result;
+}
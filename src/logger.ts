@@ -0,0 +1,64 @@
+import {ILogFields, ILogger, LogLevel} from './types';
+
+const REDACTED = '[REDACTED]';
+
+// Names of fields whose values are never logged
+const SENSITIVE_FIELD_NAME = /token$|authorization|password|secret/i;
+
+// Values that look like JWTs or auth headers
+const SENSITIVE_VALUE = /^(Bearer\s|eyJ[\w-]*\.[\w-]*\.)/i;
+
+/**
+ * Returns a copy of the log fields with the values of tokens and auth headers replaced
+ *
+ * @param fields
+ */
+export function redactLogFields(fields: ILogFields): ILogFields {
+  return Object.keys(fields).reduce((redacted: ILogFields, name) => {
+    redacted[name] = redactValue(name, fields[name]);
+    return redacted;
+  }, {});
+}
+
+function redactValue(name: string, value: any): any {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (SENSITIVE_FIELD_NAME.test(name)) {
+    return REDACTED;
+  }
+  if (typeof value === 'string') {
+    return SENSITIVE_VALUE.test(value) ? REDACTED : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(name, item));
+  }
+  if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return redactLogFields(value);
+  }
+  return value;
+}
+
+/**
+ * Returns a logger that writes to the console. Only errors are written if debug is disabled
+ *
+ * @param debug
+ */
+export function createConsoleLogger(debug: boolean): ILogger {
+  const write = (level: LogLevel) => (event: string, fields: ILogFields = {}) => {
+    if (!debug && level !== 'error') {
+      return;
+    }
+    const args: any[] = [`[Slicknode Auth] ${event}`];
+    if (Object.keys(fields).length) {
+      args.push(fields);
+    }
+    console[level](...args); // tslint:disable-line no-console
+  };
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
@@ -0,0 +1,88 @@
+import {IAsyncStorage, IStorage} from '../types';
+import MemoryStorage from './MemoryStorage';
+
+/**
+ * Synchronous in memory cache in front of an asynchronous storage
+ *
+ * Values are read from the cache, writes are applied to the cache immediately
+ * and then written to the async storage in the order they were issued.
+ */
+export default class AsyncStorageCache implements IStorage {
+  public storage: IAsyncStorage;
+  public cache: MemoryStorage;
+
+  private pendingWrites: Promise<void>;
+  private changedKeys: {[key: string]: boolean};
+  private cleared: boolean;
+  private onError: (error: Error) => void;
+
+  /**
+   * Constructor
+   * @param storage
+   * @param onError Called when a write to the async storage fails
+   */
+  constructor(storage: IAsyncStorage, onError?: (error: Error) => void) {
+    this.storage = storage;
+    this.cache = new MemoryStorage();
+    this.pendingWrites = Promise.resolve();
+    this.changedKeys = {};
+    this.cleared = false;
+    this.onError = onError || (() => null);
+  }
+
+  /**
+   * Loads the values for the given keys from the async storage into the cache.
+   * Values that were written to the cache in the meantime take precedence.
+   *
+   * @param keyNames
+   */
+  public async load(keyNames: string[]): Promise<void> {
+    const values = await Promise.all(keyNames.map((keyName) => this.storage.getItem(keyName)));
+    keyNames.forEach((keyName, index) => {
+      if (this.cleared || this.changedKeys.hasOwnProperty(keyName)) {
+        return;
+      }
+      const value = values[index];
+      if (value === null || value === undefined) {
+        this.cache.removeItem(keyName);
+      } else {
+        this.cache.setItem(keyName, value);
+      }
+    });
+  }
+
+  /**
+   * Returns a promise that resolves once all pending writes were applied to the async storage
+   */
+  public flush(): Promise<void> {
+    return this.pendingWrites;
+  }
+
+  public getItem(keyName: string): string | null {
+    return this.cache.getItem(keyName);
+  }
+
+  public setItem(keyName: string, keyValue: string): void {
+    this.changedKeys[keyName] = true;
+    this.cache.setItem(keyName, keyValue);
+    this.enqueue(() => this.storage.setItem(keyName, keyValue));
+  }
+
+  public removeItem(keyName: string): void {
+    this.changedKeys[keyName] = true;
+    this.cache.removeItem(keyName);
+    this.enqueue(() => this.storage.removeItem(keyName));
+  }
+
+  public clear(): void {
+    this.cleared = true;
+    this.cache.clear();
+    this.enqueue(() => this.storage.clear());
+  }
+
+  protected enqueue(write: () => Promise<void>) {
+    this.pendingWrites = this.pendingWrites
+      .then(write)
+      .catch((error) => this.onError(error));
+  }
+}
@@ -0,0 +1,134 @@
+import {ICookieStorageOptions, IStorage} from '../types';
+
+const EXPIRES_SUFFIX = 'Expires';
+
+/**
+ * Storage that writes the values to cookies, so they are available on the server and in the browser.
+ *
+ * In the browser, the cookies are read from and written to document.cookie. On the server, the
+ * cookies are read from the cookie header of the request and written via the setCookie callback.
+ * Cookies of keys with a corresponding *Expires key (for example accessToken and accessTokenExpires)
+ * expire at the timestamp that is stored in that key.
+ */
+export default class CookieStorage implements IStorage {
+  public options: ICookieStorageOptions;
+
+  // Cookie values on the server, NULL in the browser
+  private values: {[key: string]: string} | null;
+  private knownKeys: {[key: string]: boolean};
+
+  /**
+   * Constructor
+   * @param options
+   */
+  constructor(options: ICookieStorageOptions = {}) {
+    this.options = options;
+    this.knownKeys = {};
+    this.values = typeof options.cookieHeader === 'string' || options.setCookie ?
+      parseCookies(options.cookieHeader || '') :
+      null;
+  }
+
+  public getItem(keyName: string): string | null {
+    this.knownKeys[keyName] = true;
+    const values = this.values || parseCookies(this.getDocument().cookie);
+    return values.hasOwnProperty(keyName) ? values[keyName] : null;
+  }
+
+  public setItem(keyName: string, keyValue: string): void {
+    this.knownKeys[keyName] = true;
+    if (keyName.endsWith(EXPIRES_SUFFIX)) {
+      const expires = parseInt(keyValue, 10) || null;
+      this.writeCookie(keyName, keyValue, expires);
+
+      // Update expiration of the cookie the timestamp belongs to
+      const valueKeyName = keyName.substr(0, keyName.length - EXPIRES_SUFFIX.length);
+      const value = this.getItem(valueKeyName);
+      if (value !== null) {
+        this.writeCookie(valueKeyName, value, expires);
+      }
+    } else {
+      const expires = parseInt(this.getItem(keyName + EXPIRES_SUFFIX), 10) || null;
+      this.writeCookie(keyName, keyValue, expires);
+    }
+  }
+
+  public removeItem(keyName: string): void {
+    this.knownKeys[keyName] = true;
+    this.writeCookie(keyName, null, 0);
+  }
+
+  /**
+   * Removes all cookies that were accessed via this storage
+   */
+  public clear(): void {
+    Object.keys(this.knownKeys).forEach((keyName) => this.removeItem(keyName));
+  }
+
+  /**
+   * Writes the cookie
+   *
+   * @param keyName
+   * @param value The value of the cookie, NULL to remove the cookie
+   * @param expires UNIX timestamp in milliseconds when the cookie expires, NULL for session cookies
+   */
+  protected writeCookie(keyName: string, value: string | null, expires: number | null): void {
+    const {path = '/', domain, sameSite, secure} = this.options;
+    const parts = [`${encodeURIComponent(keyName)}=${encodeURIComponent(value || '')}`];
+    parts.push(`Path=${path}`);
+    if (domain) {
+      parts.push(`Domain=${domain}`);
+    }
+    if (expires !== null) {
+      parts.push(`Expires=${new Date(expires).toUTCString()}`);
+    }
+    if (sameSite) {
+      parts.push(`SameSite=${sameSite}`);
+    }
+    if (secure) {
+      parts.push('Secure');
+    }
+    const cookie = parts.join('; ');
+
+    if (this.values) {
+      if (value === null) {
+        delete this.values[keyName];
+      } else {
+        this.values[keyName] = value;
+      }
+      if (this.options.setCookie) {
+        this.options.setCookie(cookie);
+      }
+    } else {
+      this.getDocument().cookie = cookie;
+    }
+  }
+
+  protected getDocument(): {cookie: string} {
+    return this.options.document || document;
+  }
+}
+
+/**
+ * Parses the values of a cookie header
+ *
+ * @param cookieHeader
+ */
+function parseCookies(cookieHeader: string): {[key: string]: string} {
+  const values: {[key: string]: string} = {};
+  cookieHeader.split(';').forEach((cookie) => {
+    const index = cookie.indexOf('=');
+    if (index === -1) {
+      return;
+    }
+    try {
+      const keyName = decodeURIComponent(cookie.substr(0, index).trim());
+      if (!values.hasOwnProperty(keyName)) {
+        values[keyName] = decodeURIComponent(cookie.substr(index + 1).trim());
+      }
+    } catch (e) {
+      // Ignore cookies with invalid encoding
+    }
+  });
+  return values;
+}
@@ -0,0 +1,129 @@
+import {IAsyncStorage, IEncryptedStorageOptions, IStorage} from '../types';
+
+const VERSION = 'v1';
+const IV_LENGTH = 12;
+
+/**
+ * Storage that encrypts all values with AES-GCM via the Web Crypto API before writing
+ * them to the wrapped storage. Values that cannot be decrypted, for example because they were
+ * tampered with, are treated as missing.
+ *
+ * Since the Web Crypto API is asynchronous, this implements IAsyncStorage instead of IStorage and has to be
+ * passed to SlicknodeLink via the `asyncStorage` option. It uses the global crypto object, which Node only
+ * provides from v19. In older Node versions, pass `require('crypto').webcrypto` via the crypto option or use
+ * the synchronous NodeEncryptedStorage.
+ */
+export default class EncryptedStorage implements IAsyncStorage {
+  public storage: IStorage | IAsyncStorage;
+
+  private crypto: Crypto;
+  private keys: Promise<CryptoKey[]>;
+
+  /**
+   * Constructor
+   * @param options
+   */
+  constructor(options: IEncryptedStorageOptions) {
+    this.storage = options.storage;
+    this.crypto = options.crypto || (typeof crypto !== 'undefined' ? crypto : undefined);
+    if (!this.crypto || !this.crypto.subtle) {
+      throw new Error('The Web Crypto API is not available, pass an implementation via the crypto option');
+    }
+    this.keys = Promise.all([
+      options.key,
+      ...(options.previousKeys || []),
+    ].map((key) => this.importKey(key)));
+  }
+
+  /**
+   * Returns the decrypted value. Values that were encrypted with one of the previous keys
+   * are encrypted with the current key
+   *
+   * @param keyName
+   */
+  public async getItem(keyName: string): Promise<string | null> {
+    const value = await this.storage.getItem(keyName);
+    if (value === null || value === undefined) {
+      return null;
+    }
+    const keys = await this.keys;
+    for (let i = 0; i < keys.length; i++) {
+      const decrypted = await this.decrypt(keyName, value, keys[i]);
+      if (decrypted !== null) {
+        if (i > 0) {
+          await this.setItem(keyName, decrypted);
+        }
+        return decrypted;
+      }
+    }
+    return null;
+  }
+
+  public async setItem(keyName: string, keyValue: string): Promise<void> {
+    const [key] = await this.keys;
+    await this.storage.setItem(keyName, await this.encrypt(keyName, keyValue, key));
+  }
+
+  public async removeItem(keyName: string): Promise<void> {
+    await this.storage.removeItem(keyName);
+  }
+
+  public async clear(): Promise<void> {
+    await this.storage.clear();
+  }
+
+  protected async importKey(key: CryptoKey | string): Promise<CryptoKey> {
+    if (typeof key !== 'string') {
+      return key;
+    }
+    const digest = await this.crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+    return this.crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+
+  protected async encrypt(keyName: string, value: string, key: CryptoKey): Promise<string> {
+    const iv = this.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const encrypted = await this.crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        // Bind value to the key name, so encrypted values cannot be swapped
+        additionalData: new TextEncoder().encode(keyName),
+      },
+      key,
+      new TextEncoder().encode(value),
+    );
+    return [VERSION, toBase64(iv), toBase64(new Uint8Array(encrypted))].join(':');
+  }
+
+  /**
+   * Returns the decrypted value, NULL if the value cannot be decrypted with the key
+   */
+  protected async decrypt(keyName: string, value: string, key: CryptoKey): Promise<string | null> {
+    const parts = value.split(':');
+    if (parts.length !== 3 || parts[0] !== VERSION) {
+      return null;
+    }
+    try {
+      const decrypted = await this.crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: fromBase64(parts[1]),
+          additionalData: new TextEncoder().encode(keyName),
+        },
+        key,
+        fromBase64(parts[2]),
+      );
+      return new TextDecoder().decode(decrypted);
+    } catch (e) {
+      return null;
+    }
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...Array.from(bytes)));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
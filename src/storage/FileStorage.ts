@@ -0,0 +1,217 @@
+import fs from 'fs';
+import path from 'path';
+import {IFileStorageOptions, IStorage} from '../types';
+
+const DEFAULT_LOCK_TIMEOUT = 5000;
+const LOCK_RETRY_DELAY = 10;
+
+/**
+ * Storage that writes the values to a JSON file, so auth tokens persist across runs of Node scripts.
+ *
+ * The file is only readable by its owner. Changes are written to a temporary file that is renamed
+ * to the storage file, while holding a lock file, so several processes can use the same file.
+ * Corrupt files are treated as empty and replaced with the next change.
+ */
+export default class FileStorage implements IStorage {
+  public options: IFileStorageOptions;
+
+  /**
+   * Constructor
+   * @param options
+   */
+  constructor(options: IFileStorageOptions) {
+    this.options = options;
+  }
+
+  public getItem(keyName: string): string | null {
+    const values = this.readValues();
+    return values.hasOwnProperty(keyName) ? values[keyName] : null;
+  }
+
+  public setItem(keyName: string, keyValue: string): void {
+    this.update((values) => {
+      values[keyName] = keyValue;
+    });
+  }
+
+  public removeItem(keyName: string): void {
+    this.update((values) => {
+      delete values[keyName];
+    });
+  }
+
+  public clear(): void {
+    this.update((values) => {
+      Object.keys(values).forEach((keyName) => delete values[keyName]);
+    });
+  }
+
+  /**
+   * Reads the values from the file, always reads the file to get changes of other processes
+   */
+  private readValues(): {[key: string]: string} {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.options.path, 'utf8');
+    } catch (e) {
+      if (e.code === 'ENOENT') {
+        return {};
+      }
+      throw e;
+    }
+    try {
+      const values = JSON.parse(content);
+      if (values && typeof values === 'object' && !Array.isArray(values)) {
+        return values;
+      }
+    } catch (e) {
+      // Corrupt file is replaced with next change
+    }
+    return {};
+  }
+
+  /**
+   * Applies the change to the current values of the file and writes them back
+   *
+   * @param change
+   */
+  private update(change: (values: {[key: string]: string}) => void): void {
+    this.withLock(() => {
+      const values = this.readValues();
+      change(values);
+      this.writeValues(values);
+    });
+  }
+
+  /**
+   * Writes the values atomically by renaming a temporary file
+   *
+   * @param values
+   */
+  private writeValues(values: {[key: string]: string}): void {
+    const filePath = this.options.path;
+    fs.mkdirSync(path.dirname(filePath), {recursive: true, mode: 0o700});
+    const tmpPath = `${filePath}.${process.pid}.${Math.random().toString(36).substr(2)}.tmp`;
+    try {
+      fs.writeFileSync(tmpPath, JSON.stringify(values), {mode: 0o600});
+      fs.renameSync(tmpPath, filePath);
+    } catch (e) {
+      if (fs.existsSync(tmpPath)) {
+        fs.unlinkSync(tmpPath);
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Runs the callback while holding the lock file, so changes of other processes are not lost.
+   * The lock file contains a unique token, so a lock that was taken over by another process is not removed
+   *
+   * @param callback
+   */
+  private withLock(callback: () => void): void {
+    const lockPath = `${this.options.path}.lock`;
+    const lockTimeout = typeof this.options.lockTimeout === 'number' ?
+      this.options.lockTimeout :
+      DEFAULT_LOCK_TIMEOUT;
+    const token = createLockToken();
+    fs.mkdirSync(path.dirname(lockPath), {recursive: true, mode: 0o700});
+    let fd: number;
+    while (true) {
+      try {
+        fd = fs.openSync(lockPath, 'wx', 0o600);
+        break;
+      } catch (e) {
+        if (e.code !== 'EEXIST') {
+          throw e;
+        }
+        const staleOwner = this.getStaleLockOwner(lockPath, lockTimeout);
+        if (staleOwner !== null) {
+          this.removeStaleLock(lockPath, staleOwner);
+        } else {
+          sleep(LOCK_RETRY_DELAY);
+        }
+      }
+    }
+    try {
+      fs.writeSync(fd, token);
+      callback();
+    } finally {
+      fs.closeSync(fd);
+      if (readLockOwner(lockPath) === token) {
+        fs.unlinkSync(lockPath);
+      }
+    }
+  }
+
+  /**
+   * Returns the token of the lock file if the lock is stale, NULL if the lock is still held or was released
+   *
+   * @param lockPath
+   * @param lockTimeout
+   */
+  private getStaleLockOwner(lockPath: string, lockTimeout: number): string | null {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(lockPath).mtimeMs;
+    } catch (e) {
+      // Lock was released in the meantime
+      return null;
+    }
+    return mtimeMs + lockTimeout < Date.now() ? readLockOwner(lockPath) : null;
+  }
+
+  /**
+   * Removes the lock of a process that crashed while holding the lock. The lock is renamed first,
+   * so only one process takes over the stale lock, and restored if another process acquired it in the meantime
+   *
+   * @param lockPath
+   * @param staleOwner The token of the stale lock
+   */
+  private removeStaleLock(lockPath: string, staleOwner: string): void {
+    const stalePath = `${lockPath}.${createLockToken()}.stale`;
+    try {
+      fs.renameSync(lockPath, stalePath);
+    } catch (e) {
+      // Lock was already removed by other process
+      return;
+    }
+    if (readLockOwner(stalePath) !== staleOwner) {
+      try {
+        fs.linkSync(stalePath, lockPath);
+      } catch (e) {
+        // Lock was acquired by other process after the rename
+      }
+    }
+    fs.unlinkSync(stalePath);
+  }
+}
+
+/**
+ * Returns a token that identifies the holder of a lock
+ */
+function createLockToken(): string {
+  return `${process.pid}.${Math.random().toString(36).substr(2)}`;
+}
+
+/**
+ * Returns the token of the lock file, NULL if the lock file does not exist
+ *
+ * @param lockPath
+ */
+function readLockOwner(lockPath: string): string | null {
+  try {
+    return fs.readFileSync(lockPath, 'utf8');
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Blocks the current thread for the given number of milliseconds
+ *
+ * @param ms
+ */
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import {INodeEncryptedStorageOptions, IStorage} from '../types';
+
+const VERSION = 'v1';
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Synchronous storage for Node that encrypts all values with AES-GCM via the Node crypto module
+ * before writing them to the wrapped storage. Values that cannot be decrypted, for example because
+ * they were tampered with, are treated as missing.
+ *
+ * The values are compatible with EncryptedStorage: Both can read values written by the other with the same key.
+ */
+export default class NodeEncryptedStorage implements IStorage {
+  public storage: IStorage;
+
+  private keys: Buffer[];
+
+  /**
+   * Constructor
+   * @param options
+   */
+  constructor(options: INodeEncryptedStorageOptions) {
+    this.storage = options.storage;
+    this.keys = [
+      options.key,
+      ...(options.previousKeys || []),
+    ].map((key) => crypto.createHash('sha256').update(key).digest());
+  }
+
+  /**
+   * Returns the decrypted value. Values that were encrypted with one of the previous keys
+   * are encrypted with the current key
+   *
+   * @param keyName
+   */
+  public getItem(keyName: string): string | null {
+    const value = this.storage.getItem(keyName);
+    if (value === null || value === undefined) {
+      return null;
+    }
+    for (let i = 0; i < this.keys.length; i++) {
+      const decrypted = this.decrypt(keyName, value, this.keys[i]);
+      if (decrypted !== null) {
+        if (i > 0) {
+          this.setItem(keyName, decrypted);
+        }
+        return decrypted;
+      }
+    }
+    return null;
+  }
+
+  public setItem(keyName: string, keyValue: string): void {
+    this.storage.setItem(keyName, this.encrypt(keyName, keyValue, this.keys[0]));
+  }
+
+  public removeItem(keyName: string): void {
+    this.storage.removeItem(keyName);
+  }
+
+  public clear(): void {
+    this.storage.clear();
+  }
+
+  protected encrypt(keyName: string, value: string, key: Buffer): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    // Bind value to the key name, so encrypted values cannot be swapped
+    cipher.setAAD(Buffer.from(keyName, 'utf8'));
+    const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final(), cipher.getAuthTag()]);
+    return [VERSION, iv.toString('base64'), encrypted.toString('base64')].join(':');
+  }
+
+  /**
+   * Returns the decrypted value, NULL if the value cannot be decrypted with the key
+   */
+  protected decrypt(keyName: string, value: string, key: Buffer): string | null {
+    const parts = value.split(':');
+    if (parts.length !== 3 || parts[0] !== VERSION) {
+      return null;
+    }
+    try {
+      const iv = Buffer.from(parts[1], 'base64');
+      const encrypted = Buffer.from(parts[2], 'base64');
+      if (iv.length !== IV_LENGTH || encrypted.length < AUTH_TAG_LENGTH) {
+        return null;
+      }
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+      decipher.setAAD(Buffer.from(keyName, 'utf8'));
+      decipher.setAuthTag(encrypted.slice(encrypted.length - AUTH_TAG_LENGTH));
+      return Buffer.concat([
+        decipher.update(encrypted.slice(0, encrypted.length - AUTH_TAG_LENGTH)),
+        decipher.final(),
+      ]).toString('utf8');
+    } catch (e) {
+      return null;
+    }
+  }
+}
@@ -1 +1,7 @@
+export {default as AsyncStorageCache} from './AsyncStorageCache';
+export {default as CookieStorage} from './CookieStorage';
+export {default as EncryptedStorage} from './EncryptedStorage';
 export {default as MemoryStorage} from './MemoryStorage';
+
+// FileStorage and NodeEncryptedStorage are not exported here, so browser bundles don't depend on Node modules.
+// Import them from slicknode-apollo-link/dist/storage/FileStorage and .../NodeEncryptedStorage
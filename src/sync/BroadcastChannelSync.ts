@@ -0,0 +1,40 @@
+import {IAuthSyncChannel, IAuthSyncMessage} from '../types';
+import withLock from './withLock';
+
+const DEFAULT_CHANNEL_NAME = 'slicknode:auth';
+
+/**
+ * Synchronizes the auth state across browser tabs via the BroadcastChannel API
+ */
+export default class BroadcastChannelSync implements IAuthSyncChannel {
+  public channel: BroadcastChannel;
+
+  /**
+   * Constructor
+   * @param name The name of the BroadcastChannel
+   */
+  constructor(name: string = DEFAULT_CHANNEL_NAME) {
+    this.channel = new BroadcastChannel(name);
+  }
+
+  public postMessage(message: IAuthSyncMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  public subscribe(listener: (message: IAuthSyncMessage) => void): () => void {
+    const handler = (event: MessageEvent) => listener(event.data);
+    this.channel.addEventListener('message', handler);
+    return () => this.channel.removeEventListener('message', handler);
+  }
+
+  public withLock<T>(name: string, callback: () => Promise<T>): Promise<T> {
+    return withLock(name, callback);
+  }
+
+  /**
+   * Closes the BroadcastChannel
+   */
+  public close(): void {
+    this.channel.close();
+  }
+}
@@ -0,0 +1,143 @@
+import {IAuthSyncChannel, IAuthSyncMessage} from '../types';
+import withLock, {getLockManager} from './withLock';
+
+const DEFAULT_MESSAGE_KEY = 'slicknode:auth:sync';
+
+// Time in milliseconds after which the lock of a tab that was closed while holding it expires
+const LOCK_LEASE = 10000;
+
+// Time in milliseconds to wait for concurrent writes of other tabs before the lock is confirmed
+const LOCK_CONFIRM_DELAY = 20;
+const LOCK_RETRY_DELAY = 50;
+
+interface IStorageLock {
+  owner: string;
+
+  /**
+   * UNIX Timestamp in milliseconds when the lock expires if it is not renewed
+   */
+  expires: number;
+}
+
+/**
+ * Synchronizes the auth state across browser tabs via storage events of the localStorage.
+ * Can be used in browsers that do not support the BroadcastChannel API
+ *
+ * Locks are acquired via the Web Locks API if available, otherwise via a lock entry in the storage.
+ * The lock entry expires if it is not renewed, so a closed tab cannot hold the lock forever
+ */
+export default class StorageEventSync implements IAuthSyncChannel {
+  public storage: Storage;
+  public messageKey: string;
+
+  /**
+   * Constructor
+   * @param storage The storage that is shared across tabs, default is localStorage
+   * @param messageKey The key under which messages are written to the storage
+   */
+  constructor(storage: Storage = localStorage, messageKey: string = DEFAULT_MESSAGE_KEY) {
+    this.storage = storage;
+    this.messageKey = messageKey;
+  }
+
+  public postMessage(message: IAuthSyncMessage): void {
+    // Writing and removing the message triggers a storage event in all other tabs
+    this.storage.setItem(this.messageKey, JSON.stringify(message));
+    this.storage.removeItem(this.messageKey);
+  }
+
+  public subscribe(listener: (message: IAuthSyncMessage) => void): () => void {
+    const handler = (event: StorageEvent) => {
+      if (event.key !== this.messageKey || !event.newValue) {
+        return;
+      }
+      let message: IAuthSyncMessage;
+      try {
+        message = JSON.parse(event.newValue);
+      } catch (e) {
+        return;
+      }
+      listener(message);
+    };
+    addEventListener('storage', handler);
+    return () => removeEventListener('storage', handler);
+  }
+
+  public withLock<T>(name: string, callback: () => Promise<T>): Promise<T> {
+    if (getLockManager()) {
+      return withLock(name, callback);
+    }
+    return this.withStorageLock(`${this.messageKey}:lock:${name}`, callback);
+  }
+
+  /**
+   * Runs the callback while holding the lock entry in the storage. The lease of the lock is renewed
+   * while the callback is running
+   *
+   * @param lockKey
+   * @param callback
+   */
+  private async withStorageLock<T>(lockKey: string, callback: () => Promise<T>): Promise<T> {
+    const owner = Math.random().toString(36).substr(2);
+    await this.acquireStorageLock(lockKey, owner);
+    const renewTimer = setInterval(() => {
+      if (this.isStorageLockOwner(lockKey, owner)) {
+        this.writeStorageLock(lockKey, owner);
+      }
+    }, LOCK_LEASE / 2);
+    try {
+      return await callback();
+    } finally {
+      clearInterval(renewTimer);
+      if (this.isStorageLockOwner(lockKey, owner)) {
+        this.storage.removeItem(lockKey);
+      }
+    }
+  }
+
+  /**
+   * Waits until the lock entry is free or expired and writes the lock. If several tabs write the lock
+   * at the same time, the last write wins and the other tabs keep waiting
+   *
+   * @param lockKey
+   * @param owner
+   */
+  private async acquireStorageLock(lockKey: string, owner: string): Promise<void> {
+    while (true) {
+      const lock = this.readStorageLock(lockKey);
+      if (!lock || lock.expires < Date.now()) {
+        this.writeStorageLock(lockKey, owner);
+        await delay(LOCK_CONFIRM_DELAY);
+        if (this.isStorageLockOwner(lockKey, owner)) {
+          return;
+        }
+      } else {
+        await delay(LOCK_RETRY_DELAY);
+      }
+    }
+  }
+
+  private isStorageLockOwner(lockKey: string, owner: string): boolean {
+    const lock = this.readStorageLock(lockKey);
+    return Boolean(lock && lock.owner === owner);
+  }
+
+  private readStorageLock(lockKey: string): IStorageLock | null {
+    try {
+      const lock = JSON.parse(this.storage.getItem(lockKey));
+      return lock && typeof lock.owner === 'string' && typeof lock.expires === 'number' ? lock : null;
+    } catch (e) {
+      // Invalid lock entries are replaced
+      return null;
+    }
+  }
+
+  private writeStorageLock(lockKey: string, owner: string): void {
+    const lock: IStorageLock = {owner, expires: Date.now() + LOCK_LEASE};
+    this.storage.setItem(lockKey, JSON.stringify(lock));
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,2 @@
+export {default as BroadcastChannelSync} from './BroadcastChannelSync';
+export {default as StorageEventSync} from './StorageEventSync';
@@ -0,0 +1,38 @@
+interface ILockManager {
+  request<T>(name: string, callback: () => Promise<T>): Promise<T>;
+}
+
+// Locks of the current context if the Web Locks API is not available
+const localLocks: {[name: string]: Promise<any>} = {};
+
+/**
+ * Runs the callback while holding the lock with the given name. Uses the Web Locks API
+ * to acquire the lock across browser tabs if available, otherwise the lock is only
+ * held within the current context
+ *
+ * @param name
+ * @param callback
+ */
+export default function withLock<T>(name: string, callback: () => Promise<T>): Promise<T> {
+  const locks = getLockManager();
+  if (locks) {
+    return locks.request(name, callback);
+  }
+
+  const result = (localLocks[name] || Promise.resolve()).then(callback);
+  const lock = localLocks[name] = result.catch(() => null);
+  lock.then(() => {
+    // Release lock if no other callback is waiting
+    if (localLocks[name] === lock) {
+      delete localLocks[name];
+    }
+  });
+  return result;
+}
+
+/**
+ * Returns the lock manager of the Web Locks API, undefined if the API is not available
+ */
+export function getLockManager(): ILockManager | undefined {
+  return typeof navigator !== 'undefined' ? (navigator as any).locks : undefined;
+}
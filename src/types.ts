@@ -1,3 +1,6 @@
+import {ApolloLink, FetchResult, Operation} from '@apollo/client/core';
+import {DocumentNode} from 'graphql/language';
+
 /**
  * Interface for custom storage
  */
@@ -8,18 +11,447 @@ export interface IStorage {
   clear(): void;
 }
 
+/**
+ * Interface for custom storage with asynchronous access, for example AsyncStorage in React Native
+ */
+export interface IAsyncStorage {
+  getItem(keyName: string): Promise<string | null>;
+  setItem(keyName: string, keyValue: string): Promise<void>;
+  removeItem(keyName: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface ICookieStorageOptions {
+  /**
+   * The path of the cookies, default is /
+   */
+  path?: string;
+
+  /**
+   * The domain of the cookies
+   */
+  domain?: string;
+
+  /**
+   * The SameSite attribute of the cookies
+   */
+  sameSite?: 'Strict' | 'Lax' | 'None';
+
+  /**
+   * Only send the cookies via HTTPS
+   */
+  secure?: boolean;
+
+  /**
+   * The document that holds the cookies in the browser, default is the global document
+   */
+  document?: {cookie: string};
+
+  /**
+   * The cookie header of the request when used on the server
+   */
+  cookieHeader?: string;
+
+  /**
+   * Called with the value of the Set-Cookie header for each cookie that is written on the server
+   */
+  setCookie?: (cookie: string) => void;
+}
+
+export interface IEncryptedStorageOptions {
+  /**
+   * The storage to which the encrypted values are written
+   */
+  storage: IStorage | IAsyncStorage;
+
+  /**
+   * The key to encrypt the values with. Strings are hashed with SHA-256 to derive an AES key
+   * and should have a high entropy
+   */
+  key: CryptoKey | string;
+
+  /**
+   * Keys that were used previously. Values encrypted with these keys are still readable
+   * and are encrypted with the current key when they are read
+   */
+  previousKeys?: (CryptoKey | string)[];
+
+  /**
+   * The Web Crypto implementation, default is the global crypto object
+   */
+  crypto?: Crypto;
+}
+
+export interface INodeEncryptedStorageOptions {
+  /**
+   * The synchronous storage to which the encrypted values are written
+   */
+  storage: IStorage;
+
+  /**
+   * The key to encrypt the values with. It is hashed with SHA-256 to derive an AES key
+   * and should have a high entropy
+   */
+  key: string;
+
+  /**
+   * Keys that were used previously. Values encrypted with these keys are still readable
+   * and are encrypted with the current key when they are read
+   */
+  previousKeys?: string[];
+}
+
+export interface IFileStorageOptions {
+  /**
+   * Path of the JSON file in which the values are stored
+   */
+  path: string;
+
+  /**
+   * Time in milliseconds after which the lock file of another process is treated as stale
+   * and removed, default is 5000
+   */
+  lockTimeout?: number;
+}
+
 export interface IAuthTokenSet {
   accessToken: string;
-  accessTokenLifetime: number;
+
+  /**
+   * Lifetime of the access token in seconds. Can be omitted for JWTs if the option decodeJwt is enabled
+   */
+  accessTokenLifetime?: number | null;
   refreshToken: string;
-  refreshTokenLifetime: number;
+
+  /**
+   * Lifetime of the refresh token in seconds. Can be omitted for JWTs if the option decodeJwt is enabled
+   */
+  refreshTokenLifetime?: number | null;
+}
+
+/**
+ * Claims of the payload of a JWT
+ */
+export interface IJwtClaims {
+  /**
+   * Expiration time in seconds since the UNIX epoch
+   */
+  exp?: number;
+
+  /**
+   * Issued at time in seconds since the UNIX epoch
+   */
+  iat?: number;
+
+  /**
+   * Subject, usually the ID of the user
+   */
+  sub?: string;
+
+  [claim: string]: any;
+}
+
+/**
+ * The type of auth state change:
+ *
+ * - login: An auth token set was obtained via a mutation with the @authenticate directive
+ * - refresh: The auth token set was refreshed with the refresh token
+ * - refreshFailed: The auth token set could not be refreshed
+ * - logout: The auth tokens were removed
+ * - expired: The auth tokens expired and were removed
+ * - sessionChange: Another session was activated
+ */
+export type AuthStateChangeEventType = 'login' | 'refresh' | 'refreshFailed' | 'logout' | 'expired' | 'sessionChange';
+
+export interface IAuthStateChangeEvent {
+  type: AuthStateChangeEventType;
+
+  /**
+   * The name of the session that changed
+   */
+  session: string;
+
+  /**
+   * UNIX Timestamp in milliseconds when the access token expires, NULL if there is no access token
+   */
+  accessTokenExpires: number | null;
+
+  /**
+   * UNIX Timestamp in milliseconds when the refresh token expires, NULL if there is no refresh token
+   */
+  refreshTokenExpires: number | null;
+}
+
+export type AuthStateChangeListener = (event: IAuthStateChangeEvent) => void;
+
+/**
+ * Auth token set with absolute expiration timestamps as it is stored on the client
+ */
+export interface IStoredAuthTokenSet {
+  accessToken: string;
+
+  /**
+   * UNIX Timestamp in milliseconds when the access token expires
+   */
+  accessTokenExpires: number;
+
+  /**
+   * The refresh token, NULL if only the access token is stored, for example after hydrating a snapshot
+   */
+  refreshToken: string | null;
+
+  /**
+   * UNIX Timestamp in milliseconds when the refresh token expires
+   */
+  refreshTokenExpires: number | null;
+}
+
+/**
+ * Serializable snapshot of the auth state to transfer the auth tokens to another SlicknodeLink,
+ * for example from server side rendering to the browser
+ */
+export interface IAuthStateSnapshot {
+  /**
+   * Version of the snapshot format
+   */
+  version: number;
+
+  accessToken: string;
+
+  /**
+   * UNIX timestamp in milliseconds of the server clock when the access token expires
+   */
+  accessTokenExpires: number;
+
+  /**
+   * The refresh token, NULL if it was excluded from the snapshot
+   */
+  refreshToken: string | null;
+
+  /**
+   * UNIX timestamp in milliseconds of the server clock when the refresh token expires
+   */
+  refreshTokenExpires: number | null;
+}
+
+export interface IExportAuthStateOptions {
+  /**
+   * Include the refresh token in the snapshot, default is true. Exclude the refresh token if
+   * the snapshot is embedded in HTML
+   */
+  includeRefreshToken?: boolean;
+}
+
+/**
+ * Message that is sent to other browser tabs / contexts when the auth state changes
+ */
+export interface IAuthSyncMessage {
+  /**
+   * Unique ID of the SlicknodeLink instance that sent the message
+   */
+  sourceId: string;
+
+  /**
+   * The namespace of the SlicknodeLink instance that sent the message
+   */
+  namespace: string;
+
+  /**
+   * The name of the session that changed
+   */
+  session: string;
+
+  type: AuthStateChangeEventType;
+
+  /**
+   * The new auth token set, NULL if the tokens were removed
+   */
+  tokenSet: IStoredAuthTokenSet | null;
+}
+
+/**
+ * Interface for the transport that synchronizes the auth state across browser tabs / contexts
+ */
+export interface IAuthSyncChannel {
+  /**
+   * Sends the message to all other contexts
+   */
+  postMessage(message: IAuthSyncMessage): void;
+
+  /**
+   * Registers a listener for messages from other contexts, returns a function to remove the listener
+   */
+  subscribe(listener: (message: IAuthSyncMessage) => void): () => void;
+
+  /**
+   * Runs the callback while holding the lock with the given name exclusively across all contexts
+   */
+  withLock<T>(name: string, callback: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Result of the logout on the server
+ */
+export interface ILogoutResult {
+  /**
+   * True if the logout mutation was executed without errors
+   */
+  success: boolean;
+
+  /**
+   * The result of the logout mutation, NULL if the mutation was not executed or failed
+   */
+  result: FetchResult | null;
+
+  /**
+   * The error if the logout mutation failed
+   */
+  error: Error | null;
+}
+
+/**
+ * Codes of SlicknodeAuthError:
+ *
+ * - REFRESH_FAILED: The auth token set could not be refreshed
+ * - TOKEN_INVALID: The refresh mutation returned an invalid auth token set
+ * - NOT_AUTHENTICATED: The auth tokens expired
+ * - AUTH_REQUIRED: The operation requires authentication, but no valid access token is available
+ */
+export type SlicknodeAuthErrorCode = 'REFRESH_FAILED' | 'TOKEN_INVALID' | 'NOT_AUTHENTICATED' | 'AUTH_REQUIRED';
+
+/**
+ * Flags in the context of an operation to control the authentication of the operation
+ */
+export interface ISlicknodeLinkContext {
+  /**
+   * Send the operation without auth headers and do not refresh the auth token set
+   */
+  skipAuth?: boolean;
+
+  /**
+   * Fail with an AuthRequiredError without sending the operation if no valid access token can be obtained
+   */
+  requireAuth?: boolean;
+
+  /**
+   * Refresh the auth token set before sending the operation, even if the access token is still valid
+   */
+  forceRefresh?: boolean;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured data of a log event. Tokens and auth headers are redacted before they are passed to the logger
+ */
+export interface ILogFields {
+  [name: string]: any;
+}
+
+/**
+ * Logger that receives the diagnostics of SlicknodeLink as events with a name and structured fields
+ */
+export interface ILogger {
+  debug(event: string, fields?: ILogFields): void;
+  info(event: string, fields?: ILogFields): void;
+  warn(event: string, fields?: ILogFields): void;
+  error(event: string, fields?: ILogFields): void;
+}
+
+/**
+ * State of the refresh of the auth token set, see RefreshCoordinator
+ */
+export type RefreshState = 'idle' | 'refreshing' | 'authenticated' | 'anonymous';
+
+/**
+ * Outcome of a refresh of the auth token set:
+ *
+ * - success: The auth token set was refreshed
+ * - invalid: The refresh mutation returned an invalid auth token set
+ * - failed: The refresh token was rejected or the refresh mutation failed
+ * - transient: The refresh failed with a transient error and the tokens were kept
+ * - timeout: The refresh did not complete within the refresh timeout, a later result is ignored
+ */
+export type RefreshOutcome = 'success' | 'invalid' | 'failed' | 'transient' | 'timeout';
+
+export interface IRefreshStartEvent {
+  session: string;
+}
+
+export interface IRefreshEndEvent {
+  session: string;
+
+  /**
+   * Duration of the refresh in milliseconds
+   */
+  duration: number;
+
+  outcome: RefreshOutcome;
+}
+
+export interface IHeadersWaitEvent {
+  /**
+   * Time in milliseconds an operation waited for auth headers while the auth token set was refreshed
+   */
+  duration: number;
+}
+
+export interface ISessionEvent {
+  session: string;
+}
+
+/**
+ * Hooks that are called by SlicknodeLink to collect metrics, for example InMemoryAuthMetrics
+ */
+export interface IAuthInstrumentation {
+  onRefreshStart?(event: IRefreshStartEvent): void;
+  onRefreshEnd?(event: IRefreshEndEvent): void;
+  onHeadersWait?(event: IHeadersWaitEvent): void;
+  onLogin?(event: ISessionEvent): void;
+  onLogout?(event: ISessionEvent): void;
+}
+
+/**
+ * Counters that are collected by InMemoryAuthMetrics
+ */
+export interface IAuthMetricsCounters {
+  refreshStarted: number;
+  refreshSucceeded: number;
+  refreshInvalid: number;
+  refreshFailed: number;
+  refreshTransientErrors: number;
+  refreshTimeouts: number;
+
+  /**
+   * Sum of the durations of all completed refreshes in milliseconds
+   */
+  refreshDurationTotal: number;
+
+  /**
+   * Number of times an operation waited for auth headers while the auth token set was refreshed
+   */
+  headersWaits: number;
+
+  /**
+   * Sum of the wait times for auth headers in milliseconds
+   */
+  headersWaitTotal: number;
+
+  logins: number;
+  logouts: number;
 }
 
 export interface ISlicknodeLinkOptions {
   /**
    * The storage interface to store auth tokens, default is localStorage
    */
-  storage?: Storage;
+  storage?: IStorage;
+
+  /**
+   * An asynchronous storage interface to store auth tokens. If set, it is used instead of `storage`.
+   * Tokens are loaded into an in memory cache when the link is created
+   */
+  asyncStorage?: IAsyncStorage;
 
   /**
    * The namespace under which auth tokens are stored in the storage
@@ -32,7 +464,153 @@ export interface ISlicknodeLinkOptions {
   accessToken?: string;
 
   /**
-   * Write debug information to console
+   * Refresh the auth token set in the background the given number of seconds before the access token expires.
+   * By default, tokens are only refreshed when a request is made with an expired access token
+   */
+  refreshBeforeExpiry?: number;
+
+  /**
+   * Maximum number of times the refresh is retried after a transient error, default is 3.
+   * The auth tokens are kept on transient errors
+   */
+  refreshRetries?: number;
+
+  /**
+   * Delay in seconds before the first retry of the refresh, default is 1. The delay doubles with every retry
+   * and is randomized between 50% and 100% of its value
+   */
+  refreshRetryDelay?: number;
+
+  /**
+   * Maximum delay in seconds between retries of the refresh, default is 30
+   */
+  maxRefreshRetryDelay?: number;
+
+  /**
+   * Time in seconds after which a refresh that did not complete is aborted, default is 60 plus the maximum
+   * delays of all retries. No further retries are made after the timeout. Waiting operations are sent without auth headers, or fail in strict mode
+   */
+  refreshTimeout?: number;
+
+  /**
+   * Wait with pending requests until the retries of the refresh completed, default is true.
+   * If false, pending requests are sent without auth headers after the first transient error
+   */
+  waitForRefreshRetry?: boolean;
+
+  /**
+   * Returns true if the error of the refresh mutation is transient and the refresh should be retried.
+   * Called with the network error or with the GraphQL errors of a refresh result without auth token set.
+   * By default, network errors, HTTP status codes 408, 429 and 5xx and GraphQL errors with the code
+   * INTERNAL_SERVER_ERROR or SERVICE_UNAVAILABLE are transient
+   */
+  isTransientRefreshError?: (error: any) => boolean;
+
+  /**
+   * The mutation to obtain a new auth token set with the refresh token, default is REFRESH_TOKEN_MUTATION
+   */
+  refreshMutation?: DocumentNode;
+
+  /**
+   * Link that executes the refresh mutation, for example an HttpLink. By default, the refresh mutation is
+   * sent through the links that follow SlicknodeLink
+   */
+  refreshLink?: ApolloLink;
+
+  /**
+   * Returns the context of the refresh operation, for example the uri or custom headers. The operation
+   * that triggered the refresh is passed as argument, NULL for background refreshes
+   */
+  getRefreshContext?: (operation: Operation | null) => {[key: string]: any};
+
+  /**
+   * Returns the variables for the refresh mutation, default is `{token: refreshToken}`
+   */
+  getRefreshVariables?: (refreshToken: string) => {[name: string]: any};
+
+  /**
+   * Returns the auth token set from the data of the refresh mutation result,
+   * default returns `data.refreshAuthToken`
+   */
+  getRefreshResult?: (data: {[key: string]: any}) => any;
+
+  /**
+   * The mutation to invalidate the refresh token on the server in logoutFromServer, default is LOGOUT_MUTATION.
+   * The refresh token is passed in the variable $refreshToken
+   */
+  logoutMutation?: DocumentNode;
+
+  /**
+   * Names of the mutation fields that log the user out, default is ['logoutUser']
+   */
+  logoutFields?: string[];
+
+  /**
+   * The name of the header that holds the access token, default is Authorization
+   */
+  authHeaderName?: string;
+
+  /**
+   * The scheme that is prepended to the access token in the auth header, default is Bearer.
+   * Set to an empty string to send the access token without scheme
+   */
+  authScheme?: string;
+
+  /**
+   * Error codes in the extensions of GraphQL errors that indicate an invalid access token,
+   * default is ['UNAUTHENTICATED']
+   */
+  authErrorCodes?: string[];
+
+  /**
+   * Maximum number of times an operation is replayed with a refreshed access token
+   * after the server rejected the access token, default is 1
+   */
+  maxAuthRetries?: number;
+
+  /**
+   * Channel to synchronize auth tokens with other browser tabs and to prevent
+   * concurrent refreshes with the same refresh token, for example BroadcastChannelSync
+   */
+  sync?: IAuthSyncChannel;
+
+  /**
+   * Read the expiration time from the exp claim of JWT tokens. It is used if no lifetime is returned
+   * with the auth token set, or if the token expires before the returned lifetime
+   */
+  decodeJwt?: boolean;
+
+  /**
+   * Determine the difference between the server clock and the client clock from the Date header of
+   * responses and the iat claim of JWT tokens, and use it to convert expiration timestamps of the server,
+   * like the exp claim of JWTs, to the client clock
+   */
+  compensateClockSkew?: boolean;
+
+  /**
+   * Number of seconds before the expiration from which tokens are treated as expired, default is 0.
+   * The background refresh of refreshBeforeExpiry is scheduled relative to the start of the leeway
+   */
+  expiryLeeway?: number;
+
+  /**
+   * Emit a SlicknodeAuthError to the observer of the operation if the auth tokens could not be refreshed
+   * or expired. By default, the operation is sent without auth headers
+   */
+  strictAuth?: boolean;
+
+  /**
+   * Hooks to collect metrics of refreshes, logins and logouts
+   */
+  instrumentation?: IAuthInstrumentation;
+
+  /**
+   * Logger for diagnostics of the authentication, default writes errors to the console
+   */
+  logger?: ILogger;
+
+  /**
+   * Write debug information to console, if no logger is set
    */
   debug?: boolean;
 }